@@ -0,0 +1,167 @@
+// Runs normalizeConfig over fixture configs and checks what is kept, migrated and dropped.
+// Usage: npm run check:config
+import { CONFIG_VERSION, normalizeConfig, normalizeToolbars, validateConfig } from '../src/utils/configMigration.ts';
+import type { AgentBarConfig } from '../src/types/index.ts';
+
+declare const process: { exitCode?: number };
+
+const DEFAULTS: AgentBarConfig = {
+  configVersion: CONFIG_VERSION,
+  llmProviders: [],
+  toolbarButtons: [{
+    id: 'toolbar-default',
+    name: 'Default Toolbar',
+    context: '',
+    enabled: true,
+    websitePatterns: [{ pattern: '*', enabled: true }],
+    buttons: [{ id: 'btn-default', title: 'Explain', prompt: 'Explain: {{selectedText}}', enabled: true }],
+  }],
+  settings: { theme: 'light', autoHide: false, showOnSelect: true, debounceDelay: 500, maxHistory: 50 },
+};
+
+const provider = (id: string, extra: Record<string, any> = {}) => ({
+  id, name: id, type: 'openai', apiKey: 'sk-test', model: 'gpt-4o-mini', enabled: true, ...extra,
+});
+
+let failures = 0;
+function check(name: string, condition: boolean, detail?: unknown) {
+  if (condition) {
+    console.log(`  ok   ${name}`);
+  } else {
+    failures++;
+    console.log(`  FAIL ${name}`, detail === undefined ? '' : JSON.stringify(detail));
+  }
+}
+
+// Key order changes when zod rebuilds an object, so compare with sorted keys
+const canonical = (value: unknown): string => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b))) : v);
+
+function section(title: string, run: () => void) {
+  console.log(title);
+  run();
+}
+
+section('v0 legacy buttons with URL rules', () => {
+  const rule = (id: string, type: string, pattern: string, isWhitelist = true) => ({
+    id, name: `Rule ${id}`, type, pattern, enabled: true, priority: 1, isWhitelist, createdAt: 0, updatedAt: 0,
+  });
+  const legacyButton = (id: string, urlRuleIds: string[], order: number) => ({
+    id, name: `Button ${id}`, promptTemplate: `Prompt ${id}`, llmProviderId: 'p1', enabled: true,
+    urlRuleIds, order, createdAt: 0, updatedAt: 0,
+  });
+  const { config, issues, changed } = normalizeConfig({
+    llmProviders: [provider('p1')],
+    urlRules: [rule('r1', 'host', 'github.com'), rule('r2', 'path', 'docs.example.com/guide'), rule('r3', 'regex', '.*\\.dev'), rule('r4', 'host', 'ads.com', false)],
+    toolbarButtons: [legacyButton('b2', ['r1'], 2), legacyButton('b1', ['r1'], 1), legacyButton('b3', ['r2'], 3), legacyButton('b4', ['r3', 'r4'], 4)],
+    settings: DEFAULTS.settings,
+  }, DEFAULTS);
+
+  check('is written back at the current version', changed && config.configVersion === CONFIG_VERSION);
+  check('keeps the provider', config.llmProviders.length === 1 && config.llmProviders[0].id === 'p1');
+  check('groups buttons by their rules into three toolbars', config.toolbarButtons.length === 3, config.toolbarButtons.map(t => t.id));
+  const github = config.toolbarButtons.find(t => t.websitePatterns.some(p => p.pattern === 'github.com'));
+  check('keeps button order within a toolbar', github?.buttons.map(b => b.id).join() === 'b1,b2', github?.buttons);
+  check('maps legacy fields onto buttons', github?.buttons[0].title === 'Button b1' && github?.buttons[0].prompt === 'Prompt b1' && github?.buttons[0].llmProviderId === 'p1');
+  check('broadens path rules to the host', config.toolbarButtons.some(t => t.websitePatterns.some(p => p.pattern === 'docs.example.com')));
+  const unmatched = config.toolbarButtons.find(t => t.buttons.some(b => b.id === 'b4'));
+  check('falls back to every site when no rule converts', unmatched?.websitePatterns[0]?.pattern === '*', unmatched?.websitePatterns);
+  check('reports path, regex and blacklist rules', ['path rule', 'regex rule', 'blacklist'].every(text => issues.some(issue => issue.includes(text))), issues);
+  check('result passes validation', validateConfig(config).length === 0, validateConfig(config));
+});
+
+section('current config', () => {
+  const stored = { ...DEFAULTS, llmProviders: [provider('p1'), provider('p2', { type: 'claude', model: 'claude-3-5-sonnet', isDefault: true })] };
+  const { config, issues, changed } = normalizeConfig(JSON.parse(JSON.stringify(stored)), DEFAULTS);
+  check('is not rewritten', !changed && issues.length === 0, issues);
+  check('keeps everything', canonical(config) === canonical(stored));
+});
+
+section('v1 toolbars with urlRule strings', () => {
+  const { config, changed } = normalizeConfig({
+    ...DEFAULTS,
+    configVersion: 1,
+    toolbarButtons: [
+      { id: 't1', name: 'One', context: '', enabled: true, urlRule: 'example.com', buttons: [] },
+      { id: 't2', name: 'Two', context: '', enabled: true, websitePatterns: ['a.com', { pattern: 'b.com', enabled: false }], buttons: [] },
+    ],
+  }, DEFAULTS);
+  check('is written back', changed);
+  check('turns urlRule into a pattern', config.toolbarButtons[0].websitePatterns[0]?.pattern === 'example.com');
+  check('turns pattern strings into objects', JSON.stringify(config.toolbarButtons[1].websitePatterns) === JSON.stringify([{ pattern: 'a.com', enabled: true }, { pattern: 'b.com', enabled: false }]));
+});
+
+section('config with broken entries', () => {
+  const { config, issues, changed } = normalizeConfig({
+    ...DEFAULTS,
+    llmProviders: [
+      provider('good'),
+      provider('bad-type', { type: 'unknown-vendor' }),
+      provider('bad-temp', { temperature: 'hot' }),
+      { name: 'no id', type: 'openai', apiKey: '', model: 'x', enabled: true },
+      'not a provider',
+    ],
+    toolbarButtons: [
+      {
+        id: 't1', name: 'Mixed', context: '', enabled: true,
+        websitePatterns: [{ pattern: 'ok.com', enabled: true }, { enabled: true }],
+        buttons: [
+          { id: 'b1', title: 'Fine', prompt: 'p', enabled: true },
+          { id: 'b2', prompt: 'p', enabled: 'yes', executionMode: 'turbo' },
+          { title: 'No id', prompt: 'p', enabled: true },
+        ],
+      },
+      { id: 't2', name: 'No buttons list', context: '', enabled: true, websitePatterns: [], buttons: 'nope' },
+      { name: 'No id' },
+    ],
+    settings: { ...DEFAULTS.settings, debounceDelay: -5, serperApiKey: 42 },
+    providerFallbackIds: 'good',
+  }, DEFAULTS);
+
+  check('is written back with a report', changed && issues.length > 0);
+  const providerIds = config.llmProviders.map(p => p.id);
+  check('keeps valid providers', providerIds.includes('good'), providerIds);
+  const repaired = config.llmProviders.find(p => p.id === 'bad-type');
+  check('repairs a provider with a bad type and disables it', repaired?.type === 'openai' && repaired.enabled === false, repaired);
+  const noTemp = config.llmProviders.find(p => p.id === 'bad-temp');
+  check('drops an invalid optional provider field', !!noTemp && noTemp.temperature === undefined && noTemp.enabled === true, noTemp);
+  check('drops providers without an id and non-objects', providerIds.length === 3, providerIds);
+
+  const toolbarIds = config.toolbarButtons.map(t => t.id);
+  check('drops toolbars without an id', toolbarIds.join() === 't1,t2', toolbarIds);
+  const mixed = config.toolbarButtons.find(t => t.id === 't1');
+  check('drops broken patterns one by one', JSON.stringify(mixed?.websitePatterns) === JSON.stringify([{ pattern: 'ok.com', enabled: true }]), mixed?.websitePatterns);
+  const buttonIds = mixed?.buttons.map(b => b.id);
+  check('keeps and repairs buttons with an id, drops the rest', buttonIds?.join() === 'b1,b2', buttonIds);
+  const b2 = mixed?.buttons.find(b => b.id === 'b2');
+  check('resets broken button fields', b2?.enabled === true && b2.title === 'Untitled' && b2.executionMode === undefined, b2);
+  check('turns a non-list of buttons into an empty list', config.toolbarButtons.find(t => t.id === 't2')?.buttons.length === 0);
+  check('resets invalid settings', config.settings.debounceDelay === DEFAULTS.settings.debounceDelay && config.settings.serperApiKey === undefined, config.settings);
+  check('drops invalid optional top-level fields', config.providerFallbackIds === undefined);
+  check('reports every removal', issues.some(i => i.startsWith('llmProviders.3: removed')) && issues.some(i => i.startsWith('toolbarButtons.2: removed')), issues);
+  check('result passes validation', validateConfig(config).length === 0, validateConfig(config));
+});
+
+section('config from a newer version', () => {
+  const stored = { ...DEFAULTS, configVersion: CONFIG_VERSION + 1, futureField: { a: 1 } };
+  const { config, issues, changed } = normalizeConfig(stored, DEFAULTS);
+  check('is not rewritten', !changed);
+  check('keeps its version and unknown fields', config.configVersion === CONFIG_VERSION + 1 && (config as any).futureField?.a === 1);
+  check('is reported', issues.length === 1, issues);
+});
+
+section('imported toolbars', () => {
+  const { toolbars, issues } = normalizeToolbars([
+    { id: 't1', name: 'Import', context: '', enabled: true, urlRule: 'x.com', buttons: [] },
+    { name: 'broken' },
+  ]);
+  check('migrates and keeps valid toolbars', toolbars.length === 1 && toolbars[0].websitePatterns[0]?.pattern === 'x.com', toolbars);
+  check('reports dropped toolbars', issues.some(i => i.startsWith('toolbars.1: removed')), issues);
+});
+
+if (failures > 0) {
+  console.log(`\n${failures} check(s) failed`);
+  process.exitCode = 1;
+} else {
+  console.log('\nAll config migration checks passed');
+}
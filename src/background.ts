@@ -1,13 +1,248 @@
-import { executeBrowserAgent } from './lib/agent';
+import { createBrowserContext, createChatModel, executeBrowserAgent, getSearchBackend, isToolAllowed, prepareImage, supportsVision } from './lib/agent';
 import { storageManager } from './utils/storage';
+import { resolvePrompt, getSystemContext } from './utils/promptResolver';
+import { getRequestVariables } from './utils/promptVariables';
+import { getProviderChain, runWithFailover } from './utils/providerFailover';
+import { estimateCost } from './utils/pricing';
+import { getBudgetError } from './utils/usage';
+import { compactSteps, HISTORY_RECORD_VERSION } from './utils/historyRecord';
+import { DEFAULT_RESPONSE_CACHE, addCachedResponse, findCachedResponse, getCacheKey } from './utils/responseCache';
+import { HumanMessage, AIMessage } from '@langchain/core/messages';
+import type { BrowserAgentOptions, ImageRegion } from './lib/agent';
+import type { BaseMessage } from '@langchain/core/messages';
 import type {
   Message,
   APIRequest,
   LLMResponse,
   MessageType,
-  APIResponse
+  APIResponse,
+  StreamEvent,
+  StreamRequest,
+  ToolApprovalRequest,
+  ToolApprovalDecision,
+  LLMProvider
 } from './types';
 
+type RunHandlers = Pick<BrowserAgentOptions, 'onText' | 'onStep' | 'signal'> & {
+  // Host of the page that sent the request, used for per-site tool grants
+  host?: string;
+  // URL and title of that page, recorded in history
+  pageUrl?: string;
+  pageTitle?: string;
+  // Tab and frame of that page; browser tools act there rather than on whatever tab is active
+  tabId?: number;
+  frameId?: number;
+  // Shows an Approve/Deny prompt in the page; without it, non-granted high-risk tools are denied
+  askApproval?: (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+};
+
+// Result panel conversations, kept in memory per panel session so follow-ups continue the same history
+interface Conversation {
+  messages: BaseMessage[];
+  systemContext?: string;
+}
+
+const MAX_CONVERSATIONS = 20;
+const conversations = new Map<string, Conversation>();
+
+function saveConversation(sessionId: string, conversation: Conversation) {
+  conversations.delete(sessionId);
+  conversations.set(sessionId, conversation);
+  // Map keeps insertion order, so the first key is the least recently used session
+  while (conversations.size > MAX_CONVERSATIONS) {
+    conversations.delete(conversations.keys().next().value as string);
+  }
+}
+
+const PROVIDER_TEST_TIMEOUT = 15000;
+
+// Send a tiny prompt through the same chat model the agent builds, so the options page tests the real endpoint
+async function testProvider(provider: LLMProvider): Promise<APIResponse> {
+  try {
+    const reply = await createChatModel(provider).invoke('Reply with "ok".', {
+      signal: AbortSignal.timeout(PROVIDER_TEST_TIMEOUT),
+    });
+    return { success: true, data: typeof reply.content === 'string' ? reply.content : '' };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Connection failed' };
+  }
+}
+
+// Run an API request through the agent; streaming callbacks, approvals and the abort signal are optional
+async function runApiRequest(apiRequest: APIRequest, handlers?: RunHandlers): Promise<APIResponse> {
+  if (!apiRequest || !apiRequest.provider) {
+    return { success: false, error: 'No LLM provider configured or enabled' };
+  }
+  const startedAt = Date.now();
+  const { host, pageUrl, pageTitle, tabId, frameId, askApproval, ...agentHandlers } = handlers || {};
+  const requestApproval: BrowserAgentOptions['requestApproval'] = async (call) => {
+    const grants = await storageManager.getToolPermissions();
+    if (isToolAllowed(grants, call.name, { host, toolbarId: apiRequest.toolbarId })) return true;
+    if (!askApproval) return false;
+    const decision = await askApproval({ id: call.id, tool: call.name, args: call.args, risk: call.risk });
+    if (decision.approved && decision.remember === 'site' && host) {
+      await storageManager.addToolPermission({ tool: call.name, scope: 'site', host, createdAt: Date.now() });
+    } else if (decision.approved && decision.remember === 'toolbar' && apiRequest.toolbarId) {
+      await storageManager.addToolPermission({ tool: call.name, scope: 'toolbar', toolbarId: apiRequest.toolbarId, createdAt: Date.now() });
+    }
+    return decision.approved;
+  };
+  const [config, usageEntries] = await Promise.all([storageManager.getConfig(), storageManager.getUsage()]);
+  const budgetError = getBudgetError(usageEntries, config.usageBudget);
+  if (budgetError) {
+    return { success: false, error: budgetError };
+  }
+  const session = apiRequest.sessionId ? conversations.get(apiRequest.sessionId) : undefined;
+  if (apiRequest.followUp && !session) {
+    return { success: false, error: 'This conversation has expired. Run the button again to start a new one.' };
+  }
+  // Follow-ups are sent as typed; only the first message of a conversation is a template
+  const finalPrompt = apiRequest.followUp || apiRequest.promptResolved ? apiRequest.prompt : resolvePrompt(apiRequest.prompt, getRequestVariables(apiRequest));
+  const systemContext = apiRequest.followUp ? session?.systemContext : getSystemContext(apiRequest.prompt, apiRequest.context);
+  const history = apiRequest.followUp ? session?.messages : undefined;
+  // Images belong to the first message; in a follow-up they are already part of the conversation
+  const images = apiRequest.followUp ? undefined : apiRequest.images?.filter(Boolean);
+  if (images?.length && !supportsVision(apiRequest.provider)) {
+    return { success: false, error: `${apiRequest.provider.name} (${apiRequest.provider.model}) can't read images. Choose a vision-capable model for this button.` };
+  }
+  console.log('🧪 Agent request', { prompt: finalPrompt, provider: apiRequest.provider, dropdownVars: apiRequest.dropdownVars, executionMode: apiRequest.executionMode });
+  // Route by the button's execution mode: no tools, a chosen subset, or every browser tool
+  const mode = apiRequest.executionMode || 'agent';
+  const tools = mode === 'completion' ? [] : mode === 'agent-tools' ? (apiRequest.allowedTools || []) : undefined;
+  const cacheSettings = { ...DEFAULT_RESPONSE_CACHE, ...config.settings?.responseCache };
+  // Only runs without tools are cached: tool runs read the live page, even when a given run happened
+  // not to call any. Follow-ups depend on the conversation so far and screenshots on the page.
+  const cacheable = tools !== undefined && tools.length === 0 && !apiRequest.followUp && !images?.length;
+  const cacheKey = cacheSettings.enabled && cacheable
+    ? await getCacheKey({
+      prompt: finalPrompt,
+      systemContext,
+      providerId: apiRequest.provider.id,
+      model: apiRequest.provider.model,
+      temperature: apiRequest.provider.temperature,
+      executionMode: mode,
+      allowedTools: tools,
+    })
+    : null;
+  if (cacheKey && !apiRequest.bypassCache) {
+    const hit = findCachedResponse(await storageManager.getResponseCache(), cacheKey, cacheSettings);
+    if (hit) {
+      if (apiRequest.sessionId) {
+        saveConversation(apiRequest.sessionId, { messages: [new HumanMessage(finalPrompt), new AIMessage(hit.text)], systemContext });
+      }
+      return {
+        success: true,
+        data: hit.text,
+        steps: [],
+        answeredBy: { id: apiRequest.provider.id, name: apiRequest.provider.name, model: hit.model },
+        cached: { createdAt: hit.createdAt },
+      };
+    }
+  }
+  const chain = getProviderChain(apiRequest.provider, config.llmProviders, config.providerFallbackIds)
+    .filter(candidate => !images?.length || supportsVision(candidate));
+  // Once a tool has run, a fresh attempt would repeat its effects on the page, so stop retrying
+  let ranTools = false;
+  const browserContext = createBrowserContext(tabId, frameId);
+  const { result: agentResult, provider } = await runWithFailover(
+    chain,
+    (candidate) => executeBrowserAgent(finalPrompt, candidate, {
+      debug: true,
+      ...agentHandlers,
+      onStep: (step) => {
+        ranTools = true;
+        agentHandlers.onStep?.(step);
+      },
+      tools,
+      systemContext,
+      requestApproval,
+      history,
+      browserContext,
+      searchBackend: getSearchBackend(config.settings),
+      images,
+    }),
+    {
+      signal: agentHandlers.signal,
+      canRetry: () => !ranTools,
+      onRetry: ({ provider: failed, attempt, error }) => console.warn('🔁 Provider attempt failed', { provider: failed.name, attempt, error }),
+    }
+  );
+  const text = typeof (agentResult as any).data === 'string'
+    ? (agentResult as any).data
+    : ((agentResult as any).data && typeof (agentResult as any).data === 'object' && 'text' in (agentResult as any).data
+      ? (agentResult as any).data.text
+      : String((agentResult as any).data ?? ''));
+  const steps = agentResult.steps || [];
+  const usage = agentResult.usage;
+  // Local models cost nothing; unknown hosted models are counted in tokens only
+  const cost = usage && (provider.type === 'local' ? 0 : estimateCost(provider.model, usage, config.modelPrices));
+  if (usage) {
+    await storageManager.recordUsage({
+      providerId: provider.id,
+      providerName: provider.name,
+      model: provider.model,
+      toolbarId: apiRequest.toolbarId,
+      buttonId: apiRequest.buttonId,
+      usage,
+      cost,
+    });
+  }
+  // Fallback answers belong to another provider and are not stored
+  if (cacheKey && agentResult.status === 'ok' && provider.id === apiRequest.provider.id && text) {
+    const cache = await storageManager.getResponseCache();
+    await storageManager.setResponseCache(addCachedResponse(cache, cacheKey, { text, createdAt: Date.now(), providerId: provider.id, model: provider.model }, cacheSettings));
+  }
+  if (apiRequest.sessionId && agentResult.status === 'ok' && agentResult.conversation) {
+    saveConversation(apiRequest.sessionId, { messages: agentResult.conversation, systemContext });
+  }
+  const apiResponse: APIResponse = agentResult.status === 'ok'
+    ? {
+      success: true,
+      data: text,
+      steps,
+      answeredBy: { id: provider.id, name: provider.name, model: provider.model },
+      ...(provider.id !== apiRequest.provider.id && { fallbackFrom: apiRequest.provider.name }),
+      ...(usage && { usage }),
+    }
+    : agentResult.status === 'cancelled'
+      ? { success: false, cancelled: true, error: 'Cancelled by user', steps }
+      : { success: false, error: 'Agent execution failed', steps };
+  console.log('🧪 Agent result', { status: agentResult.status, steps: agentResult.steps?.length, model: agentResult.model, text });
+
+  // Save to history if successful
+  if (apiResponse.success) {
+    const dropdowns = apiRequest.dropdownVars
+      ? Object.fromEntries(Object.entries(apiRequest.dropdownVars).map(([name, value]) => [name, value.label]))
+      : undefined;
+    const trigger = apiRequest.followUp ? 'follow-up' : apiRequest.promptResolved ? 're-run' : apiRequest.trigger;
+    const llmResponse: LLMResponse = {
+      id: `response-${Date.now()}`,
+      recordVersion: HISTORY_RECORD_VERSION,
+      content: text,
+      provider: provider.name,
+      providerId: provider.id,
+      model: provider.model,
+      prompt: finalPrompt,
+      timestamp: Date.now(),
+      durationMs: Date.now() - startedAt,
+      ...(apiRequest.selectedText && { selectedText: apiRequest.selectedText }),
+      ...(pageUrl && { url: pageUrl }),
+      ...(pageTitle && { pageTitle }),
+      ...(apiRequest.toolbarId && { toolbarId: apiRequest.toolbarId }),
+      ...(apiRequest.buttonId && { buttonId: apiRequest.buttonId }),
+      ...(dropdowns && Object.keys(dropdowns).length > 0 && { dropdowns }),
+      ...(trigger && { trigger }),
+      executionMode: apiRequest.executionMode || 'agent',
+      ...(steps.length > 0 && { steps: compactSteps(steps) }),
+      ...(usage && { usage }),
+      ...(cost !== undefined && { cost }),
+    };
+    await storageManager.addToHistory(llmResponse);
+  }
+
+  return apiResponse;
+}
+
 // Handle messages from content script and popup
 chrome.runtime.onInstalled.addListener(async (details) => {
   try {
@@ -22,7 +257,7 @@ chrome.runtime.onInstalled.addListener(async (details) => {
   } catch { }
 });
 
-chrome.runtime.onMessage.addListener(async (message: Message, _sender, sendResponse) => {
+chrome.runtime.onMessage.addListener(async (message: Message, sender, sendResponse) => {
   try { console.log('📨 Background received message', { type: message.type }); } catch { }
   try {
     switch (message.type) {
@@ -63,47 +298,47 @@ chrome.runtime.onMessage.addListener(async (message: Message, _sender, sendRespo
         sendResponse({ success: true });
         break;
 
-      case 'API_REQUEST':
-        const apiRequest = message.payload as APIRequest;
-        if (!apiRequest || !apiRequest.provider) {
-          sendResponse({ success: false, error: 'No LLM provider configured or enabled' });
-          break;
+      case 'API_REQUEST': {
+        const pageUrl = sender.tab?.url;
+        let host: string | undefined;
+        try { host = pageUrl ? new URL(pageUrl).host : undefined; } catch { }
+        sendResponse(await runApiRequest(message.payload as APIRequest, { host, pageUrl, pageTitle: sender.tab?.title, tabId: sender.tab?.id, frameId: sender.frameId }));
+        break;
+      }
+
+      case 'RESET_CONVERSATION': {
+        const { sessionId, keepFirstAnswer } = message.payload || {};
+        const conversation = sessionId ? conversations.get(sessionId) : undefined;
+        if (conversation && keepFirstAnswer) {
+          // The first exchange is the button prompt and its answer
+          conversations.set(sessionId, { ...conversation, messages: conversation.messages.slice(0, 2) });
+        } else if (sessionId) {
+          conversations.delete(sessionId);
         }
-        let finalPrompt = apiRequest.prompt.replace('{{selectedText}}', apiRequest.selectedText);
-        if (apiRequest.dropdownVars && typeof apiRequest.dropdownVars === 'object') {
-          for (const [name, payload] of Object.entries(apiRequest.dropdownVars)) {
-            const label = payload?.label || '';
-            const desc = payload?.description || '';
-            finalPrompt = finalPrompt.split(`{{${name}}}`).join(`${label}${desc ? `(${desc})` : ''}`);
-          }
+        sendResponse({ success: true });
+        break;
+      }
+
+      case 'CAPTURE_REGION': {
+        const tab = sender.tab;
+        if (!tab?.id || tab.windowId === undefined) {
+          sendResponse({ success: false, error: 'Screenshots can only be taken from a page' });
+          break;
         }
-        console.log('🧪 Agent request', { prompt: finalPrompt, provider: apiRequest.provider, dropdownVars: apiRequest.dropdownVars });
-        const agentResult = await executeBrowserAgent(finalPrompt, apiRequest.provider, { debug: true });
-        const text = typeof (agentResult as any).data === 'string'
-          ? (agentResult as any).data
-          : ((agentResult as any).data && typeof (agentResult as any).data === 'object' && 'text' in (agentResult as any).data
-            ? (agentResult as any).data.text
-            : String((agentResult as any).data ?? ''));
-        const apiResponse: APIResponse = agentResult.status === 'ok'
-          ? { success: true, data: text }
-          : { success: false, error: 'Agent execution failed' };
-        console.log('🧪 Agent result', { status: agentResult.status, steps: agentResult.steps?.length, model: agentResult.model, text });
-
-        // Save to history if successful
-        if (apiResponse.success && apiRequest.provider) {
-          const llmResponse: LLMResponse = {
-            id: `response-${Date.now()}`,
-            content: text,
-            provider: apiRequest.provider.name,
-            model: apiRequest.provider.model,
-            prompt: apiRequest.prompt.replace('{{selectedText}}', apiRequest.selectedText),
-            timestamp: Date.now(),
-            ...(apiResponse.usage && { usage: apiResponse.usage }),
-          };
-          await storageManager.addToHistory(llmResponse);
+        // captureVisibleTab shows whatever is in front, so the page asking must be the active tab
+        const [active] = await chrome.tabs.query({ active: true, windowId: tab.windowId });
+        if (active?.id !== tab.id) {
+          sendResponse({ success: false, error: 'The page must be the active tab to take a screenshot' });
+          break;
         }
+        const capture = await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' });
+        const region = message.payload?.region as ImageRegion | undefined;
+        sendResponse({ success: true, data: await prepareImage(capture, { region }) });
+        break;
+      }
 
-        sendResponse(apiResponse);
+      case 'TEST_PROVIDER':
+        sendResponse(await testProvider(message.payload as LLMProvider));
         break;
 
       case 'PING':
@@ -179,6 +414,62 @@ chrome.runtime.onConnect.addListener((port) => {
         console.log('📡 Port disconnected');
       });
     }
+    if (port.name === 'agent-bar-stream') {
+      // One port per request: partial text and tool steps are pushed as they happen, then STREAM_DONE.
+      // CANCEL (or the content script going away) aborts the run.
+      const controller = new AbortController();
+      const pendingApprovals = new Map<string, (decision: ToolApprovalDecision) => void>();
+      const pageUrl = port.sender?.tab?.url;
+      const pageTitle = port.sender?.tab?.title;
+      let host: string | undefined;
+      try { host = pageUrl ? new URL(pageUrl).host : undefined; } catch { }
+      const post = (event: StreamEvent) => {
+        try { port.postMessage(event); } catch { }
+      };
+      const askApproval = (request: ToolApprovalRequest) => new Promise<ToolApprovalDecision>((resolve) => {
+        pendingApprovals.set(request.id, resolve);
+        post({ type: 'STREAM_APPROVAL', request });
+      });
+      controller.signal.addEventListener('abort', () => {
+        pendingApprovals.forEach(resolve => resolve({ approved: false }));
+        pendingApprovals.clear();
+      });
+      port.onMessage.addListener(async (msg: StreamRequest) => {
+        if (!msg) return;
+        if (msg.type === 'CANCEL') {
+          controller.abort();
+          return;
+        }
+        if (msg.type === 'APPROVAL_RESPONSE') {
+          const resolve = pendingApprovals.get(msg.id);
+          pendingApprovals.delete(msg.id);
+          resolve?.(msg.decision);
+          return;
+        }
+        if (msg.type !== 'API_REQUEST') return;
+        let response: APIResponse;
+        try {
+          response = await runApiRequest(msg.payload, {
+            onText: (text) => post({ type: 'STREAM_TEXT', text }),
+            onStep: (step) => post({ type: 'STREAM_STEP', step }),
+            signal: controller.signal,
+            host,
+            pageUrl,
+            pageTitle,
+            tabId: port.sender?.tab?.id,
+            frameId: port.sender?.frameId,
+            askApproval,
+          });
+        } catch (error) {
+          console.error('Background stream error:', error);
+          response = controller.signal.aborted
+            ? { success: false, cancelled: true, error: 'Cancelled by user' }
+            : { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+        post({ type: 'STREAM_DONE', response });
+      });
+      port.onDisconnect.addListener(() => controller.abort());
+    }
   } catch { }
 });
 
@@ -0,0 +1,42 @@
+import React from 'react';
+import type { ToolApprovalRequest, ToolApprovalDecision } from '../types';
+
+interface ApprovalPromptProps {
+  request: ToolApprovalRequest;
+  canRememberToolbar: boolean;
+  onDecision: (decision: ToolApprovalDecision) => void;
+}
+
+const describeArgs = (args: any): string => {
+  if (!args || typeof args !== 'object') return '';
+  const parts = Object.entries(args)
+    .filter(([, v]) => v !== null && v !== undefined && v !== '')
+    .map(([k, v]) => `${k}: ${typeof v === 'string' ? v : JSON.stringify(v)}`);
+  const text = parts.join(', ');
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+};
+
+const ApprovalPrompt: React.FC<ApprovalPromptProps> = ({ request, canRememberToolbar, onDecision }) => {
+  const decide = (decision: ToolApprovalDecision) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onDecision(decision);
+  };
+  const args = describeArgs(request.args);
+
+  return (
+    <div className="approval-prompt">
+      <div className="approval-title">⚠️ The agent wants to run <code>{request.tool}</code></div>
+      {args && <div className="approval-args">{args}</div>}
+      <div className="approval-actions">
+        <button className="approval-button approve" onMouseDown={(e) => e.preventDefault()} onClick={decide({ approved: true })}>Approve</button>
+        <button className="approval-button deny" onMouseDown={(e) => e.preventDefault()} onClick={decide({ approved: false })}>Deny</button>
+        <button className="approval-button" onMouseDown={(e) => e.preventDefault()} onClick={decide({ approved: true, remember: 'site' })} title="Always allow this action on this site">Always on this site</button>
+        {canRememberToolbar && (
+          <button className="approval-button" onMouseDown={(e) => e.preventDefault()} onClick={decide({ approved: true, remember: 'toolbar' })} title="Always allow this action for this toolbar">Always for this toolbar</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalPrompt;
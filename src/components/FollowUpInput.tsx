@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+
+interface FollowUpInputProps {
+  onSubmit: (text: string) => void;
+  // Shown once the conversation has follow-ups
+  onReset?: () => void;
+}
+
+const FollowUpInput: React.FC<FollowUpInputProps> = ({ onSubmit, onReset }) => {
+  const [text, setText] = useState('');
+
+  const submit = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSubmit(trimmed);
+    setText('');
+  };
+
+  return (
+    <div className="follow-up-form">
+      <input
+        className="follow-up-input"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        // Let the input take focus: the panel and toolbar prevent default on mousedown
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder="Ask a follow-up, e.g. make it shorter"
+      />
+      <button
+        className="follow-up-send"
+        type="button"
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={(e) => {
+          e.stopPropagation();
+          submit();
+        }}
+        disabled={!text.trim()}
+        title="Send"
+      >
+        ➤
+      </button>
+      {onReset && (
+        <button
+          className="follow-up-reset"
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onReset();
+          }}
+          title="Drop the follow-ups and go back to the first answer"
+        >
+          Reset
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FollowUpInput;
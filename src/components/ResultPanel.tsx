@@ -2,16 +2,38 @@ import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import TagList from './TagList';
-import type { DropdownConfig } from '../types';
+import StepTimeline from './StepTimeline';
+import ApprovalPrompt from './ApprovalPrompt';
+import FollowUpInput from './FollowUpInput';
+import type { InsertMode } from '../utils/textInsertion';
+import type { DropdownConfig, ConversationTurn, AgentStep, ToolApprovalRequest, ToolApprovalDecision } from '../types';
 
 interface ResultPanelProps {
   visible: boolean;
   content: string;
+  // Earlier answers and follow-up questions; `content` is the latest answer
+  thread?: ConversationTurn[];
+  steps?: AgentStep[];
+  cancelled?: boolean;
+  // Set when the primary provider failed and a fallback produced the answer
+  fallback?: { answeredBy: string; failed: string };
+  // Set when the answer was served from the response cache
+  cachedAt?: number;
+  onRegenerate?: () => void;
+  approval?: ToolApprovalRequest;
+  onApprovalDecision?: (decision: ToolApprovalDecision) => void;
   loading: boolean;
   position: { x: number; y: number };
   onClose: () => void;
   onCopy: () => void;
   onRetry: () => void;
+  onStop?: () => void;
+  // Present when the toolbar was opened on an input, textarea or contenteditable editor
+  onInsert?: (mode: InsertMode) => void;
+  onUndoInsert?: () => void;
+  // Present when the latest answer can be followed up
+  onFollowUp?: (text: string) => void;
+  onResetConversation?: () => void;
   onConfigure?: () => void;
   showConfigure?: boolean;
   dropdowns?: DropdownConfig[];
@@ -22,10 +44,23 @@ interface ResultPanelProps {
 const ResultPanel: React.FC<ResultPanelProps> = ({
   visible,
   content,
+  thread,
+  steps,
+  cancelled,
+  fallback,
+  cachedAt,
+  onRegenerate,
+  approval,
+  onApprovalDecision,
   loading,
   onClose,
   onCopy,
   onRetry,
+  onStop,
+  onInsert,
+  onUndoInsert,
+  onFollowUp,
+  onResetConversation,
   onConfigure,
   showConfigure,
   dropdowns,
@@ -34,6 +69,24 @@ const ResultPanel: React.FC<ResultPanelProps> = ({
 }) => {
   if (!visible) return null;
 
+  const lastStep = steps && steps.length ? steps[steps.length - 1] : undefined;
+
+  const renderMarkdown = (text: string) => (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        a: ({ href, children }) => (
+          <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+        ),
+        img: ({ src, alt }) => (
+          <img src={src || ''} alt={alt || ''} />
+        )
+      }}
+    >
+      {text}
+    </ReactMarkdown>
+  );
+
   const handleCopy = async () => {
     const text = (content || '').toString();
     const hasText = text.trim().length > 0;
@@ -84,6 +137,24 @@ const ResultPanel: React.FC<ResultPanelProps> = ({
     handleCopy();
   };
 
+  // Handle stop button click
+  const handleStopClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onStop) onStop();
+  };
+
+  // Handle insert button clicks
+  const handleInsertClick = (e: React.MouseEvent, mode: InsertMode) => {
+    e.stopPropagation();
+    if (onInsert) onInsert(mode);
+  };
+
+  // Handle undo button click
+  const handleUndoInsertClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onUndoInsert) onUndoInsert();
+  };
+
   // Handle retry button click
   const handleRetryClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -123,30 +194,66 @@ const ResultPanel: React.FC<ResultPanelProps> = ({
         </div>
       )}
       <div className="result-panel-content">
-        {loading ? (
+        {thread && thread.length > 0 && (
+          <div className="conversation-thread">
+            {thread.map((turn, i) => (
+              <div key={i} className={`thread-turn thread-${turn.role}`}>
+                {turn.role === 'assistant' ? renderMarkdown(turn.content) : turn.content}
+              </div>
+            ))}
+          </div>
+        )}
+        {approval && onApprovalDecision && (
+          <ApprovalPrompt request={approval} canRememberToolbar={!!toolbarId} onDecision={onApprovalDecision} />
+        )}
+        {loading && !content ? (
           <div className="loading-content">
             <div className="loading-spinner"></div>
-            <span>Processing...</span>
+            <span>{approval ? 'Waiting for approval...' : lastStep ? `Running ${lastStep.name}...` : 'Processing...'}</span>
           </div>
         ) : (
           <div className="text-content">
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
-              components={{
-                a: ({ href, children }) => (
-                  <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
-                ),
-                img: ({ src, alt }) => (
-                  <img src={src || ''} alt={alt || ''} />
-                )
-              }}
-            >
-              {content}
-            </ReactMarkdown>
+            {renderMarkdown(content)}
+            {loading && <span className="streaming-cursor" />}
+          </div>
+        )}
+        {!loading && steps && steps.length > 0 && (
+          <StepTimeline steps={steps} />
+        )}
+        {fallback && !loading && (
+          <div className="fallback-note">↪ Answered by {fallback.answeredBy} because {fallback.failed} was unavailable</div>
+        )}
+        {cachedAt && !loading && (
+          <div className="cached-note">
+            <span className="cached-badge">⚡ Cached</span>
+            <span>Saved answer from {new Date(cachedAt).toLocaleString()}</span>
+            {onRegenerate && (
+              <button
+                className="cached-regenerate"
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRegenerate();
+                }}
+              >
+                Regenerate
+              </button>
+            )}
           </div>
         )}
+        {cancelled && !loading && (
+          <div className="cancelled-note">⏹ Stopped</div>
+        )}
       </div>
 
+      {onFollowUp && !loading && (
+        <FollowUpInput
+          onSubmit={onFollowUp}
+          onReset={thread && thread.length > 0 ? onResetConversation : undefined}
+        />
+      )}
+
       <div className="result-panel-actions">
         {showConfigure && (
           <button
@@ -161,6 +268,44 @@ const ResultPanel: React.FC<ResultPanelProps> = ({
             ⚙️
           </button>
         )}
+        {onInsert && !loading && content.trim() && (
+          <>
+            <button
+              className="action-button insert-button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={(e) => handleInsertClick(e, 'replace')}
+              title="Replace selection"
+            >
+              ✏️
+            </button>
+            <button
+              className="action-button insert-button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={(e) => handleInsertClick(e, 'insert-below')}
+              title="Insert below"
+            >
+              ⤵️
+            </button>
+            <button
+              className="action-button insert-button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={(e) => handleInsertClick(e, 'append')}
+              title="Append to input"
+            >
+              ➕
+            </button>
+          </>
+        )}
+        {onUndoInsert && (
+          <button
+            className="action-button undo-button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleUndoInsertClick}
+            title="Undo insert"
+          >
+            ↩️
+          </button>
+        )}
         <button
           className="action-button copy-button"
           onMouseDown={(e) => e.preventDefault()}
@@ -169,14 +314,25 @@ const ResultPanel: React.FC<ResultPanelProps> = ({
         >
           📋
         </button>
-        <button
-          className="action-button retry-button"
-          onMouseDown={(e) => e.preventDefault()}
-          onClick={handleRetryClick}
-          title="Retry"
-        >
-          🔄
-        </button>
+        {loading && onStop ? (
+          <button
+            className="action-button stop-button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleStopClick}
+            title="Stop"
+          >
+            ⏹
+          </button>
+        ) : (
+          <button
+            className="action-button retry-button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleRetryClick}
+            title="Retry"
+          >
+            🔄
+          </button>
+        )}
         <button
           className="action-button close-button"
           onMouseDown={(e) => e.preventDefault()}
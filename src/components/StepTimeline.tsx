@@ -0,0 +1,97 @@
+import React from 'react';
+import type { AgentStep } from '../types';
+
+interface StepTimelineProps {
+  steps: AgentStep[];
+}
+
+// Long strings (page text, screenshot data URLs) are cut so the trace stays readable
+const MAX_VALUE_LENGTH = 300;
+
+const truncateValue = (value: any): any => {
+  if (typeof value === 'string') {
+    return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map(truncateValue);
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = truncateValue(v);
+    return out;
+  }
+  return value;
+};
+
+const formatValue = (value: any): string => {
+  if (value === undefined) return '';
+  try {
+    return JSON.stringify(truncateValue(value), null, 2);
+  } catch {
+    return String(value);
+  }
+};
+
+// One-line hint of what the step targeted, e.g. the URL it opened or the selector it clicked
+const summarizeInput = (input: any): string => {
+  if (!input || typeof input !== 'object') return '';
+  const hint = input.url || input.query || input.selector || input.action || input.text;
+  if (typeof hint !== 'string' || !hint) return '';
+  return hint.length > 60 ? `${hint.slice(0, 60)}…` : hint;
+};
+
+const StepTimeline: React.FC<StepTimelineProps> = ({ steps }) => {
+  return (
+    <details className="agent-steps" onClick={(e) => e.stopPropagation()}>
+      <summary
+        className="agent-steps-summary"
+        onClick={(e) => {
+          // The panel swallows clicks, so toggle the <details> ourselves
+          e.preventDefault();
+          const details = e.currentTarget.parentElement as HTMLDetailsElement | null;
+          if (details) details.open = !details.open;
+        }}
+      >
+        {steps.length} tool step{steps.length === 1 ? '' : 's'}
+        {steps.some(s => s.error) && <span className="agent-steps-failed"> · {steps.filter(s => s.error).length} failed</span>}
+      </summary>
+      <ol className="agent-steps-list">
+        {steps.map((step, index) => {
+          const hint = summarizeInput(step.input);
+          return (
+            <li key={index} className={`agent-step ${step.error ? 'agent-step-error' : 'agent-step-ok'}`}>
+              <details>
+                <summary
+                  onClick={(e) => {
+                    e.preventDefault();
+                    const details = e.currentTarget.parentElement as HTMLDetailsElement | null;
+                    if (details) details.open = !details.open;
+                  }}
+                >
+                  <span className="agent-step-status">{step.error ? '✗' : '✓'}</span>
+                  <span className="agent-step-name">{step.name}</span>
+                  {hint && <span className="agent-step-hint">{hint}</span>}
+                </summary>
+                <div className="agent-step-detail">
+                  <div className="agent-step-label">Input</div>
+                  <pre>{formatValue(step.input)}</pre>
+                  {step.error ? (
+                    <>
+                      <div className="agent-step-label">Error</div>
+                      <pre>{step.error}</pre>
+                    </>
+                  ) : (
+                    <>
+                      <div className="agent-step-label">Output</div>
+                      <pre>{formatValue(step.output)}</pre>
+                    </>
+                  )}
+                </div>
+              </details>
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+};
+
+export default StepTimeline;
@@ -1,6 +1,7 @@
 import React from 'react';
 import ResultPanel from './ResultPanel';
-import type { ToolbarPosition, ToolbarButton, ToolbarButtonConfig, DropdownConfig } from '../types';
+import type { InsertMode } from '../utils/textInsertion';
+import type { ToolbarPosition, ToolbarButton, ToolbarButtonConfig, DropdownConfig, ConversationTurn, AgentStep, ToolApprovalRequest, ToolApprovalDecision } from '../types';
 import ToolbarButtons from './ToolbarButtons';
 
 interface ToolbarPanelProps {
@@ -11,10 +12,23 @@ interface ToolbarPanelProps {
     onButtonClick: (button: ToolbarButton | ToolbarButtonConfig) => void;
     resultPanelVisible: boolean;
     resultPanelContent: string;
+    resultPanelThread?: ConversationTurn[];
+    resultPanelSteps?: AgentStep[];
+    resultPanelCancelled?: boolean;
+    resultPanelFallback?: { answeredBy: string; failed: string } | null;
+    resultPanelCachedAt?: number | null;
+    pendingApproval?: ToolApprovalRequest | null;
+    onApprovalDecision?: (decision: ToolApprovalDecision) => void;
     resultPanelPosition: { x: number; y: number };
     onResultPanelClose: () => void;
     onResultPanelCopy: () => void;
     onResultPanelRetry: () => void;
+    onResultPanelRegenerate?: () => void;
+    onResultPanelStop?: () => void;
+    onResultPanelInsert?: (mode: InsertMode) => void;
+    onResultPanelUndoInsert?: () => void;
+    onResultPanelFollowUp?: (text: string) => void;
+    onResultPanelResetConversation?: () => void;
     onDragStart?: (e: React.MouseEvent) => void;
     onResultPanelConfigure?: () => void;
     resultPanelShowConfigure?: boolean;
@@ -31,10 +45,23 @@ const ToolbarPanel: React.FC<ToolbarPanelProps> = ({
     onButtonClick,
     resultPanelVisible,
     resultPanelContent,
+    resultPanelThread,
+    resultPanelSteps,
+    resultPanelCancelled,
+    resultPanelFallback,
+    resultPanelCachedAt,
+    pendingApproval,
+    onApprovalDecision,
     resultPanelPosition,
     onResultPanelClose,
     onResultPanelCopy,
     onResultPanelRetry,
+    onResultPanelRegenerate,
+    onResultPanelStop,
+    onResultPanelInsert,
+    onResultPanelUndoInsert,
+    onResultPanelFollowUp,
+    onResultPanelResetConversation,
     onResultPanelConfigure,
     onDragStart,
     resultPanelShowConfigure,
@@ -88,11 +115,24 @@ const ToolbarPanel: React.FC<ToolbarPanelProps> = ({
                     <ResultPanel
                         visible={resultPanelVisible}
                         content={resultPanelContent}
+                        thread={resultPanelThread}
+                        steps={resultPanelSteps}
+                        cancelled={resultPanelCancelled}
+                        fallback={resultPanelFallback || undefined}
+                        cachedAt={resultPanelCachedAt || undefined}
+                        onRegenerate={onResultPanelRegenerate}
+                        approval={pendingApproval || undefined}
+                        onApprovalDecision={onApprovalDecision}
                         loading={loading}
                         position={resultPanelPosition}
                         onClose={onResultPanelClose}
                         onCopy={onResultPanelCopy}
                         onRetry={onResultPanelRetry}
+                        onStop={onResultPanelStop}
+                        onInsert={onResultPanelInsert}
+                        onUndoInsert={onResultPanelUndoInsert}
+                        onFollowUp={onResultPanelFollowUp}
+                        onResetConversation={onResultPanelResetConversation}
                         onConfigure={onResultPanelConfigure}
                         showConfigure={resultPanelShowConfigure}
                         dropdowns={panelDropdowns || undefined}
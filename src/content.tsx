@@ -4,9 +4,12 @@ import { storageManager } from './utils/storage';
 import { urlMatcher } from './utils/urlMatcher';
 import ToolbarPanel from './components/ToolbarPanel';
 import TriggerMarker from './components/TriggerMarker';
-import type { ToolbarPosition, ToolbarButton, ToolbarConfig, ToolbarButtonConfig, DropdownConfig } from './types';
+import type { ToolbarPosition, ToolbarButton, ToolbarConfig, ToolbarButtonConfig, DropdownConfig, APIRequest, ConversationTurn, AgentStep, ToolApprovalRequest, ToolApprovalDecision } from './types';
 import './style.css';
-import { ping, openOptions as openOptionsMsg, getStorage, apiRequest as apiRequestMsg } from './utils/messaging';
+import { ping, openOptions as openOptionsMsg, getStorage, streamApiRequest, resetConversation, captureRegion } from './utils/messaging';
+import { collectPageVariables } from './utils/promptVariables';
+import { getScreenshotRegion } from './utils/screenshotRegion';
+import { captureInsertTarget, insertResult, type InsertTarget, type InsertMode } from './utils/textInsertion';
 
 const AgentBarApp: React.FC = () => {
   const [isVisible, setIsVisible] = useState(false);
@@ -21,11 +24,21 @@ const AgentBarApp: React.FC = () => {
   // Result panel state
   const [resultPanelVisible, setResultPanelVisible] = useState(false);
   const [resultPanelContent, setResultPanelContent] = useState('');
+  const [resultPanelThread, setResultPanelThread] = useState<ConversationTurn[]>([]);
+  const [resultPanelSteps, setResultPanelSteps] = useState<AgentStep[]>([]);
+  const [canFollowUp, setCanFollowUp] = useState(false);
+  const [resultPanelFallback, setResultPanelFallback] = useState<{ answeredBy: string; failed: string } | null>(null);
+  // When the answer came from the response cache
+  const [resultPanelCachedAt, setResultPanelCachedAt] = useState<number | null>(null);
+  const [resultPanelCancelled, setResultPanelCancelled] = useState(false);
+  const [pendingApproval, setPendingApproval] = useState<ToolApprovalRequest | null>(null);
   const [resultPanelPosition, setResultPanelPosition] = useState({ x: 0, y: 0 });
   const [resultPanelShowConfigure, setResultPanelShowConfigure] = useState(false);
   const [panelDropdowns, setPanelDropdowns] = useState<DropdownConfig[] | null>(null);
   const [panelToolbarId, setPanelToolbarId] = useState<string | null>(null);
   const [panelButtonId, setPanelButtonId] = useState<string | null>(null);
+  const [canInsertResult, setCanInsertResult] = useState(false);
+  const [canUndoInsert, setCanUndoInsert] = useState(false);
 
   const debounceTimerRef = useRef<number | undefined>();
   const containerRef = useRef<HTMLDivElement>(null);
@@ -33,7 +46,16 @@ const AgentBarApp: React.FC = () => {
   const toolbarHeightRef = useRef<number>(48);
   const keepAliveRef = useRef<{ port?: any; timer?: number }>({});
   const lastButtonRef = useRef<ToolbarButton | ToolbarButtonConfig | null>(null);
+  // Screenshot sent with the last button run; retries reuse it since the selection is usually gone by then
+  const lastCaptureRef = useRef<{ images?: string[]; error?: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const approvalResolveRef = useRef<((decision: ToolApprovalDecision) => void) | null>(null);
   const markerRef = useRef<HTMLDivElement | null>(null);
+  const lastInputRef = useRef<HTMLElement | null>(null);
+  const insertTargetRef = useRef<InsertTarget | null>(null);
+  const undoInsertRef = useRef<(() => void) | null>(null);
+  // Request that opened the current result panel conversation; follow-ups reuse its provider and mode
+  const conversationRef = useRef<APIRequest | null>(null);
   const lastSelectionRef = useRef<{ text: string; rect: { left: number; top: number; right: number; bottom: number; width: number; height: number } } | null>(null);
   const [markerState, setMarkerState] = useState<{ visible: boolean; trigger: 'text-selection' | 'input-focus' | 'global-website'; rect: { left: number; top: number; right: number; bottom: number; width: number; height: number }; endRect?: { left: number; top: number; right: number; bottom: number; width: number; height: number }; text: string } | null>(null);
 
@@ -121,6 +143,7 @@ const AgentBarApp: React.FC = () => {
         clearTimeout(debounceTimerRef.current);
         debounceTimerRef.current = undefined;
       }
+      lastInputRef.current = target;
       const rect = target.getBoundingClientRect();
       const text = (target as HTMLInputElement).value || target.textContent || '';
       setCurrentTrigger('input-focus');
@@ -465,8 +488,41 @@ const AgentBarApp: React.FC = () => {
   };
 
   // Handle button click
-  const handleButtonClick = async (button: ToolbarButton | ToolbarButtonConfig) => {
+  const handleButtonClick = async (button: ToolbarButton | ToolbarButtonConfig, options: { bypassCache?: boolean; reuseCapture?: boolean } = {}) => {
     lastButtonRef.current = button;
+    // Taken before the result panel opens so the panel doesn't cover the page in the picture
+    if (!options.reuseCapture || lastCaptureRef.current?.error) {
+      lastCaptureRef.current = null;
+      if ('screenshotSelection' in button && button.screenshotSelection) {
+        const region = getScreenshotRegion({
+          selection: window.getSelection(),
+          input: currentTrigger === 'input-focus' ? lastInputRef.current : null,
+        });
+        const capture = await captureRegion(region);
+        lastCaptureRef.current = capture.success && capture.data
+          ? { images: [capture.data] }
+          : { error: capture.error || 'Failed to take a screenshot' };
+      }
+    }
+    const capture = lastCaptureRef.current;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    controller.signal.addEventListener('abort', () => resolveApproval({ approved: false }));
+
+    // Remember the editable the button was used on so the result can be written back into it;
+    // the insert actions only appear once a response arrives
+    insertTargetRef.current = captureInsertTarget(currentTrigger === 'input-focus' ? lastInputRef.current : null);
+    undoInsertRef.current = null;
+    setCanInsertResult(false);
+    setCanUndoInsert(false);
+
+    // Every button click starts a new conversation
+    const previousSession = conversationRef.current?.sessionId;
+    if (previousSession) resetConversation(previousSession);
+    conversationRef.current = null;
+    setResultPanelThread([]);
+    setCanFollowUp(false);
 
     // Don't hide toolbar - keep it visible
     // Show result panel right below toolbar
@@ -476,6 +532,10 @@ const AgentBarApp: React.FC = () => {
     setResultPanelPosition({ x: panelX, y: panelY });
     setResultPanelVisible(true);
     setResultPanelContent('');
+    setResultPanelSteps([]);
+    setResultPanelCancelled(false);
+    setResultPanelFallback(null);
+    setResultPanelCachedAt(null);
     setLoading(true);
 
     let dropdownsPayload: DropdownConfig[] | null = null;
@@ -509,10 +569,19 @@ const AgentBarApp: React.FC = () => {
 
       if ('llmProviderId' in button && button.llmProviderId) {
         provider = providers.find(p => p.id === button.llmProviderId && p.enabled);
-      } else {
-        // Use default provider
+      }
+      // A model override belongs to the button's provider and is dropped when that provider is unavailable
+      const modelOverride = 'model' in button && button.model?.trim();
+      if (provider && modelOverride) {
+        provider = { ...provider, model: modelOverride };
+      }
+      if (!provider) {
+        // Use default provider (also when the button's provider was deleted or disabled)
         provider = providers.find(p => p.isDefault && p.enabled) ||
           providers.find(p => p.enabled);
+        if (provider && modelOverride && !('llmProviderId' in button && button.llmProviderId)) {
+          provider = { ...provider, model: modelOverride };
+        }
       }
 
       if (!provider) {
@@ -523,8 +592,14 @@ const AgentBarApp: React.FC = () => {
       }
       setResultPanelShowConfigure(false);
 
-      const promptTemplate = ('promptTemplate' in button ? button.promptTemplate : button.prompt);
-      let prompt = promptTemplate.replace('{{selectedText}}', selectedText);
+      if (capture?.error) {
+        setResultPanelContent(`Error: ${capture.error}`);
+        return;
+      }
+
+      // Variables ({{selectedText}}, {{context}}, dropdowns) are resolved in the background
+      const prompt = ('promptTemplate' in button ? button.promptTemplate : button.prompt);
+      const toolbar = toolbarIdPayload ? toolbars.find(t => t.id === toolbarIdPayload) : undefined;
 
       let dropdownVars: Record<string, { label: string; description?: string }> | undefined = undefined;
       if (dropdownsPayload && toolbarIdPayload && buttonIdPayload) {
@@ -550,45 +625,172 @@ const AgentBarApp: React.FC = () => {
         }
         dropdownVars = Object.keys(map).length ? map : undefined;
         console.log('dropdownVars:', dropdownVars);
-        if (dropdownVars) {
-          for (const [name, payload] of Object.entries(dropdownVars)) {
-            if (name && payload?.label) {
-              const re = new RegExp(`\\{\\{${name}\\}\\}`, 'g');
-              prompt = prompt.replace(re, payload.label);
-            }
-          }
-        }
       }
 
-      const apiRequest = {
+      const pageVariables = await collectPageVariables(prompt, {
+        selection: window.getSelection(),
+        input: currentTrigger === 'input-focus' ? lastInputRef.current : null,
+      });
+
+      const apiRequest: APIRequest = {
         provider,
         prompt,
         selectedText,
         dropdownVars,
+        context: toolbar?.context || undefined,
+        pageVariables,
+        toolbarId: toolbarIdPayload || undefined,
+        buttonId: buttonIdPayload || undefined,
+        executionMode: 'executionMode' in button ? button.executionMode : undefined,
+        allowedTools: 'allowedTools' in button ? button.allowedTools : undefined,
+        trigger: currentTrigger || undefined,
+        bypassCache: options.bypassCache,
+        images: capture?.images,
+        sessionId: `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       };
+      conversationRef.current = apiRequest;
 
-      // Send request to background script
-      const response = await apiRequestMsg(apiRequest);
-
-      if (response.success && response.data) {
-        setResultPanelContent(response.data);
-      } else {
-        setResultPanelContent(`Error: ${response.error || 'Unknown error occurred'}`);
-      }
+      await streamToPanel(apiRequest, controller);
 
     } catch (error) {
       console.error('Error handling button click:', error);
       setResultPanelContent(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setResultPanelShowConfigure(false);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  // Send a request to the background script, rendering partial output as it streams in
+  const streamToPanel = async (apiRequest: APIRequest, controller: AbortController) => {
+    const response = await streamApiRequest(apiRequest, {
+      onText: (text) => setResultPanelContent(text),
+      onStep: (step) => setResultPanelSteps(prev => [...prev, step]),
+      onApproval: (request) => new Promise<ToolApprovalDecision>((resolve) => {
+        approvalResolveRef.current = resolve;
+        setPendingApproval(request);
+      }),
+      signal: controller.signal,
+    });
+    if (abortRef.current !== controller) return;
+    if (Array.isArray(response.steps)) setResultPanelSteps(response.steps);
+    setResultPanelFallback(response.fallbackFrom && response.answeredBy
+      ? { answeredBy: `${response.answeredBy.name} (${response.answeredBy.model})`, failed: response.fallbackFrom }
+      : null);
+    setResultPanelCachedAt(response.cached ? response.cached.createdAt : null);
+
+    if (response.success && response.data) {
+      setResultPanelContent(response.data);
+      setCanFollowUp(true);
+      setCanInsertResult(!!insertTargetRef.current);
+    } else if (response.cancelled) {
+      // Keep whatever was streamed before the stop
+      setResultPanelCancelled(true);
+    } else {
+      setResultPanelContent(`Error: ${response.error || 'Unknown error occurred'}`);
+    }
+  };
+
+  // Continue the panel conversation with a follow-up message
+  const handleResultPanelFollowUp = async (text: string) => {
+    const conversation = conversationRef.current;
+    if (!conversation) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    controller.signal.addEventListener('abort', () => resolveApproval({ approved: false }));
+
+    setResultPanelThread(prev => [...prev, { role: 'assistant', content: resultPanelContent }, { role: 'user', content: text }]);
+    setResultPanelContent('');
+    setResultPanelSteps([]);
+    setResultPanelCancelled(false);
+    setResultPanelFallback(null);
+    setResultPanelCachedAt(null);
+    setCanFollowUp(false);
+    setCanInsertResult(false);
+    undoInsertRef.current = null;
+    setCanUndoInsert(false);
+    setLoading(true);
+
+    try {
+      await streamToPanel({ ...conversation, prompt: text, followUp: true }, controller);
+    } catch (error) {
+      console.error('Error sending follow-up:', error);
+      setResultPanelContent(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  // Drop the follow-ups and go back to the first answer
+  const handleResultPanelResetConversation = async () => {
+    const conversation = conversationRef.current;
+    const first = resultPanelThread[0];
+    if (!conversation || !first) return;
+    await resetConversation(conversation.sessionId!, true);
+    setResultPanelThread([]);
+    setResultPanelContent(first.content);
+    setResultPanelSteps([]);
+    setResultPanelCancelled(false);
+    setResultPanelFallback(null);
+    setResultPanelCachedAt(null);
+    setCanFollowUp(true);
+  };
+
+  // Answer the pending high-risk tool prompt
+  const resolveApproval = (decision: ToolApprovalDecision) => {
+    const resolve = approvalResolveRef.current;
+    approvalResolveRef.current = null;
+    setPendingApproval(null);
+    if (resolve) resolve(decision);
+  };
+
+  // Handle result panel stop (cancel the in-flight agent run)
+  const handleResultPanelStop = () => {
+    abortRef.current?.abort();
+  };
+
   // Handle result panel close
   const handleResultPanelClose = () => {
+    abortRef.current?.abort();
     setResultPanelVisible(false);
     setResultPanelContent('');
+    setResultPanelSteps([]);
+    setResultPanelThread([]);
+    setCanFollowUp(false);
+    if (conversationRef.current?.sessionId) resetConversation(conversationRef.current.sessionId);
+    conversationRef.current = null;
+    insertTargetRef.current = null;
+    undoInsertRef.current = null;
+    setCanInsertResult(false);
+    setCanUndoInsert(false);
+  };
+
+  // Write the result into the input or editor the button was used on
+  const handleResultPanelInsert = (mode: InsertMode) => {
+    const target = insertTargetRef.current;
+    const text = resultPanelContent.trim();
+    if (!target || !text) return;
+    const undo = insertResult(target, text, mode);
+    if (!undo) {
+      setCanInsertResult(false);
+      return;
+    }
+    undoInsertRef.current = undo;
+    setCanUndoInsert(true);
+  };
+
+  const handleResultPanelUndoInsert = () => {
+    const undo = undoInsertRef.current;
+    undoInsertRef.current = null;
+    setCanUndoInsert(false);
+    if (undo) undo();
   };
 
   // Handle result panel copy
@@ -622,7 +824,14 @@ const AgentBarApp: React.FC = () => {
   const handleResultPanelRetry = async () => {
     const last = lastButtonRef.current;
     if (!last) return;
-    await handleButtonClick(last);
+    await handleButtonClick(last, { reuseCapture: true });
+  };
+
+  // Ask the provider again instead of showing the cached answer
+  const handleResultPanelRegenerate = async () => {
+    const last = lastButtonRef.current;
+    if (!last) return;
+    await handleButtonClick(last, { bypassCache: true, reuseCapture: true });
   };
 
   const handleResultPanelConfigure = async () => {
@@ -743,10 +952,23 @@ const AgentBarApp: React.FC = () => {
       onButtonClick={handleButtonClick}
       resultPanelVisible={resultPanelVisible}
       resultPanelContent={resultPanelContent}
+      resultPanelThread={resultPanelThread}
+      resultPanelSteps={resultPanelSteps}
+      resultPanelCancelled={resultPanelCancelled}
+      resultPanelFallback={resultPanelFallback}
+      resultPanelCachedAt={resultPanelCachedAt}
+      pendingApproval={pendingApproval}
+      onApprovalDecision={resolveApproval}
       resultPanelPosition={resultPanelPosition}
       onResultPanelClose={handleResultPanelClose}
       onResultPanelCopy={handleResultPanelCopy}
       onResultPanelRetry={handleResultPanelRetry}
+      onResultPanelRegenerate={handleResultPanelRegenerate}
+      onResultPanelStop={handleResultPanelStop}
+      onResultPanelInsert={canInsertResult ? handleResultPanelInsert : undefined}
+      onResultPanelUndoInsert={canUndoInsert ? handleResultPanelUndoInsert : undefined}
+      onResultPanelFollowUp={canFollowUp ? handleResultPanelFollowUp : undefined}
+      onResultPanelResetConversation={handleResultPanelResetConversation}
       onDragStart={handleDragStart}
       onResultPanelConfigure={handleResultPanelConfigure}
       resultPanelShowConfigure={resultPanelShowConfigure}
@@ -1,95 +1,255 @@
-import { SystemMessage, HumanMessage, type BaseMessage, isAIMessage } from "@langchain/core/messages"
-import type { LLMProvider } from "~/types"
+import { SystemMessage, HumanMessage, AIMessage, ToolMessage, type BaseMessage, type AIMessageChunk, isAIMessage } from "@langchain/core/messages"
+import type { LLMProvider, AgentStep, ToolRiskLevel, TokenUsage } from "~/types"
 import { createChatModel } from "./modelFactory"
-import { browserTools } from "./browserTools"
+import { browserTools, type BrowserExecutionContext } from "./browserTools"
+import type { SearchBackend } from "./webSearch"
+import { prepareImage, supportsVision } from "./images"
+import { getToolRisk } from "./permissions"
 
-type Step = { name: string; input: any; output?: any; error?: string }
-export type BrowserAgentResult = { status: "ok" | "error"; data?: any; steps: Step[]; model: { provider: string; model: string } }
+type Step = AgentStep
+export type BrowserAgentResult = {
+  status: "ok" | "error" | "cancelled"
+  data?: any
+  steps: Step[]
+  model: { provider: string; model: string }
+  // Tokens of every LLM turn in the run, when the provider reports them
+  usage?: TokenUsage
+  // The history plus this prompt and the final answer (tool traffic left out), for follow-up runs
+  conversation?: BaseMessage[]
+}
+export type BrowserAgentOptions = {
+  debug?: boolean
+  // Called with the text of the current LLM turn so far; a new turn starts again from ""
+  onText?: (text: string) => void
+  // Called once per finished tool call
+  onStep?: (step: Step) => void
+  // Aborts the pending LLM call and any running tool; the run then resolves as "cancelled"
+  signal?: AbortSignal
+  // Extra instructions appended to the system prompt (e.g. toolbar context)
+  systemContext?: string
+  // Names of the browser tools the model may use; defaults to all, [] runs a plain completion
+  tools?: string[]
+  // Asked before every high-risk tool call; without it high-risk calls are denied
+  requestApproval?: (call: { id: string; name: string; args: any; risk: ToolRiskLevel }) => Promise<boolean>
+  // Earlier turns of the same conversation, sent before the prompt
+  history?: BaseMessage[]
+  // Tab the browser tools act on; without it they use whichever tab is active
+  browserContext?: BrowserExecutionContext
+  // Backend of the web_search tool; without it the tool reports that search isn't configured
+  searchBackend?: SearchBackend
+  // Image data URLs sent along with the prompt; only for providers that support vision
+  images?: string[]
+}
+
+function raceWithAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.reject(new Error("Aborted"))
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error("Aborted"))
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(
+      (v) => { signal.removeEventListener("abort", onAbort); resolve(v) },
+      (e) => { signal.removeEventListener("abort", onAbort); reject(e) }
+    )
+  })
+}
+
+const AGENT_SYSTEM_PROMPT = "You are a web assistant. You can use built-in browser tools to interact with pages. When the task is pure text processing (e.g., translation, rewriting, summarization, explanation), do not call any tools — respond in plain text. Only call tools when page interaction is required. Do not use rigid JSON output; keep natural plain-text responses. If tools were used, provide a brief conclusion in the final answer."
+const COMPLETION_SYSTEM_PROMPT = "You are a helpful writing and reading assistant. Respond in natural plain text."
 
-function bindTools(model: any) {
-  const tools = Object.values(browserTools)
-  return model.bindTools(tools)
+function selectTools(names?: string[]) {
+  const all = Object.entries(browserTools)
+  return names ? all.filter(([name]) => names.includes(name)) : all
 }
 
-async function callLlm(modelWithTools: any, messages: BaseMessage[]) {
-  return modelWithTools.invoke([
-    new SystemMessage(
-      "You are a web assistant. You can use built-in browser tools to interact with pages. When the task is pure text processing (e.g., translation, rewriting, summarization, explanation), do not call any tools — respond in plain text. Only call tools when page interaction is required. Do not use rigid JSON output; keep natural plain-text responses. If tools were used, provide a brief conclusion in the final answer."
-    ),
+function bindTools(model: any, tools: [string, any][]) {
+  if (!tools.length) return model
+  return model.bindTools(tools.map(([, t]) => t))
+}
+
+async function callLlm(modelWithTools: any, systemPrompt: string, messages: BaseMessage[], onText?: (text: string) => void, signal?: AbortSignal) {
+  const input = [
+    new SystemMessage(systemPrompt),
     ...messages
-  ])
+  ]
+  if (!onText) return raceWithAbort(modelWithTools.invoke(input, { signal }), signal)
+  // Stream the turn and merge the chunks back into one message so tool calls are still available
+  let full: AIMessageChunk | undefined
+  for await (const chunk of await modelWithTools.stream(input, { signal })) {
+    if (signal?.aborted) throw new Error("Aborted")
+    full = full ? full.concat(chunk) : chunk
+    const text = full!.text
+    if (text) onText(text)
+  }
+  return full
 }
 
-async function callTool(toolCall: any) {
-  const t = (browserTools as any)[toolCall.name]
+function addUsage(total: TokenUsage | undefined, response: any): TokenUsage | undefined {
+  const u = response?.usage_metadata
+  if (!u) return total
+  const promptTokens = (total?.promptTokens || 0) + (u.input_tokens || 0)
+  const completionTokens = (total?.completionTokens || 0) + (u.output_tokens || 0)
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+}
+
+function toStep(toolCall: any, toolMessage: any): Step {
+  let output: any = toolMessage?.content
+  if (typeof output === "string") {
+    try { output = JSON.parse(output) } catch { }
+  }
+  const error = output && output.ok === false ? output.error : undefined
+  return { name: toolCall.name, input: toolCall.args, output, error }
+}
+
+async function callTool(toolCall: any, allowed: Record<string, any>, options?: BrowserAgentOptions) {
+  const t = allowed[toolCall.name]
   if (!t) throw new Error(`Tool not found: ${toolCall.name}`)
-  return t.invoke(toolCall)
+  const configurable = { browserContext: options?.browserContext, searchBackend: options?.searchBackend }
+  // The signal also reaches the tool, so a stopped run cancels its page polling and skips pending actions
+  return raceWithAbort(t.invoke(toolCall, { configurable, signal: options?.signal }), options?.signal)
 }
 
-export async function executeBrowserAgent(prompt: string, provider: LLMProvider, options?: { debug?: boolean }): Promise<BrowserAgentResult> {
+async function authorizeToolCall(toolCall: any, options?: BrowserAgentOptions): Promise<boolean> {
+  const risk = getToolRisk(toolCall.name, toolCall.args)
+  if (risk === "low") return true
+  if (!options?.requestApproval) return false
+  const id = toolCall.id || `${toolCall.name}-${Date.now()}`
+  return raceWithAbort(options.requestApproval({ id, name: toolCall.name, args: toolCall.args, risk }), options.signal)
+}
+
+const SCREENSHOT_TOOL = "browser_take_screenshot"
+
+// Screenshot results hold a data URL the model can't read as text. Vision models get the picture as
+// image content after the tool results; other models get a note instead of a wall of base64.
+async function attachScreenshots(calls: any[], toolResults: any[], vision: boolean): Promise<BaseMessage[]> {
+  const images: string[] = []
+  const rewritten = await Promise.all(toolResults.map(async (message, i) => {
+    if (calls[i].name !== SCREENSHOT_TOOL || typeof message?.content !== "string") return message
+    let output: any
+    try { output = JSON.parse(message.content) } catch { return message }
+    const dataUrl = output?.ok ? output.result?.dataUrl : undefined
+    if (typeof dataUrl !== "string") return message
+    let note = "Screenshot taken, but this model cannot view images"
+    if (vision) {
+      images.push(await prepareImage(dataUrl).catch(() => dataUrl))
+      note = `Screenshot attached as image ${images.length} in the next message`
+    }
+    return new ToolMessage({ content: JSON.stringify({ ok: true, result: { note } }), tool_call_id: calls[i].id, name: calls[i].name })
+  }))
+  if (!images.length) return rewritten
+  return [...rewritten, imageMessage("Screenshots from browser_take_screenshot:", images)]
+}
+
+function imageMessage(text: string, images: string[]) {
+  return new HumanMessage({ content: [{ type: "text", text }, ...images.map(url => ({ type: "image_url", image_url: { url } }))] })
+}
+
+function deniedToolMessage(toolCall: any) {
+  return new ToolMessage({
+    content: JSON.stringify({ ok: false, error: "Denied by user" }),
+    tool_call_id: toolCall.id,
+    name: toolCall.name
+  })
+}
+
+export async function executeBrowserAgent(prompt: string, provider: LLMProvider, options?: BrowserAgentOptions): Promise<BrowserAgentResult> {
   const dbg = options?.debug ? (...args: any[]) => console.log("[BrowserAgent]", ...args) : (..._args: any[]) => { }
   dbg("init", { provider: provider.type, model: provider.model })
   const model = createChatModel(provider)
-  const modelWithTools = bindTools(model)
-  dbg("tools-bound", { count: Object.values(browserTools).length })
-  let messages: BaseMessage[] = [new HumanMessage(prompt)]
+  const tools = selectTools(options?.tools)
+  const allowedTools = Object.fromEntries(tools)
+  const modelWithTools = bindTools(model, tools)
+  const basePrompt = tools.length ? AGENT_SYSTEM_PROMPT : COMPLETION_SYSTEM_PROMPT
+  // Kept in the single system message: some providers reject more than one
+  const systemPrompt = options?.systemContext ? `${basePrompt}\n\nContext:\n${options.systemContext}` : basePrompt
+  dbg("tools-bound", { count: tools.length })
+  const signal = options?.signal
+  const history = options?.history || []
+  const vision = supportsVision(provider)
+  const humanMessage = options?.images?.length && vision ? imageMessage(prompt, options.images) : new HumanMessage(prompt)
+  let messages: BaseMessage[] = [...history, humanMessage]
+  const steps: Step[] = []
+  let usage: TokenUsage | undefined
+  const cancelled = (): BrowserAgentResult => {
+    dbg("agent-cancelled", { steps: steps.length })
+    return { status: "cancelled", steps, model: { provider: provider.type, model: provider.model }, usage }
+  }
   dbg("llm-start", { messages: messages.length })
-  let modelResponse = await callLlm(modelWithTools, messages)
+  let modelResponse: any
+  try {
+    modelResponse = await callLlm(modelWithTools, systemPrompt, messages, options?.onText, signal)
+  } catch (e) {
+    if (signal?.aborted) return cancelled()
+    throw e
+  }
+  usage = addUsage(usage, modelResponse)
   dbg("llm-response", { hasToolCalls: !!(modelResponse as any).tool_calls, toolCalls: (modelResponse as any).tool_calls?.length || 0 })
   let stepCount = 0
   let lastCallSig = ""
   while (true) {
+    if (signal?.aborted) return cancelled()
     const calls = (modelResponse as any).tool_calls
     if (!calls || !calls.length) break
     if (stepCount >= 20) break
     const sig = JSON.stringify(calls.map((c: any) => ({ n: c.name, a: c.args })))
     if (sig === lastCallSig) break
     dbg("tool-calls", calls.map((c: any) => ({ name: c.name, args: c.args })))
-    const toolResults = await Promise.all(calls.map((c: any) => callTool(c)))
+    let toolResults: any[]
+    try {
+      // Ask for approvals one at a time so the user never sees stacked prompts
+      const approved: boolean[] = []
+      for (const c of calls) approved.push(await authorizeToolCall(c, options))
+      dbg("tool-approvals", approved)
+      toolResults = await Promise.all(calls.map((c: any, i: number) => approved[i] ? callTool(c, allowedTools, options) : deniedToolMessage(c)))
+    } catch (e) {
+      if (signal?.aborted) return cancelled()
+      throw e
+    }
     dbg("tool-results", toolResults)
-    messages.push(modelResponse as any, ...toolResults as any)
+    calls.forEach((c: any, i: number) => {
+      const step = toStep(c, toolResults[i])
+      steps.push(step)
+      dbg("step", { name: step.name, error: step.error, ok: !step.error })
+      options?.onStep?.(step)
+    })
+    messages.push(modelResponse as any, ...await attachScreenshots(calls, toolResults, vision))
     dbg("messages-updated", { messages: messages.length })
     if (messages.length > 40) {
-      const base = messages.slice(0, 2)
+      const base = messages.slice(0, history.length + 2)
       const tail = messages.slice(-10)
       messages = [...base, ...tail]
     }
     stepCount++
     lastCallSig = sig
-    modelResponse = await callLlm(modelWithTools, messages)
+    try {
+      modelResponse = await callLlm(modelWithTools, systemPrompt, messages, options?.onText, signal)
+    } catch (e) {
+      if (signal?.aborted) return cancelled()
+      throw e
+    }
+    usage = addUsage(usage, modelResponse)
     dbg("llm-response", { hasToolCalls: !!(modelResponse as any).tool_calls, toolCalls: (modelResponse as any).tool_calls?.length || 0 })
   }
   dbg("agent-finish")
   const result = [...messages, modelResponse as any]
   dbg("agent-invoke-done", { messages: result.length })
-  const steps: Step[] = []
-  for (const m of result) {
-    const t = m.getType()
-    if (t === "tool") {
-      const name = (m as any).name || "tool"
-      const input = (m as any).input
-      const output = (m as any).output
-      const error = output && output.ok === false ? output.error : undefined
-      steps.push({ name, input, output, error })
-      dbg("step", { name, error, ok: !error })
-    }
-  }
   const last = result[result.length - 1]
   dbg("final-message-type", last?.getType?.())
   if (isAIMessage(last)) {
+    const conversation = [...history, humanMessage, new AIMessage(last.text || "")]
     try {
       const parsed = JSON.parse(last.text || "{}")
       dbg("final-json", parsed)
       const normalized = typeof parsed === "string" ? { text: parsed } : parsed
       const status = (typeof normalized === "object" && (normalized as any).status) || "ok"
       const data = (typeof normalized === "object" && (normalized as any).data) ? (normalized as any).data : normalized
-      return { status, data, steps, model: { provider: provider.type, model: provider.model } }
+      return { status, data, steps, model: { provider: provider.type, model: provider.model }, usage, conversation }
     } catch {
       const data = { text: last.text }
       dbg("final-text", data)
-      return { status: "ok", data: data, steps, model: { provider: provider.type, model: provider.model } }
+      return { status: "ok", data: data, steps, model: { provider: provider.type, model: provider.model }, usage, conversation }
     }
   }
   dbg("final-error")
-  return { status: "error", steps, model: { provider: provider.type, model: provider.model } }
+  return { status: "error", steps, model: { provider: provider.type, model: provider.model }, usage }
 }
@@ -1,8 +1,28 @@
-import { tool } from "@langchain/core/tools"
+import { tool, type ToolRunnableConfig } from "@langchain/core/tools"
 import * as z from "zod"
+import { fetchPageText, type PageText, type SearchBackend, type SearchResponse } from "./webSearch"
 
 type ToolResult<T> = { ok: boolean; result?: T; error?: string }
 
+// Where the tools of one agent run act. The run is bound to the tab (and frame) that sent the request,
+// so switching tabs or windows meanwhile doesn't move clicks and typing to another page.
+export type BrowserExecutionContext = {
+  // Tab and frame of the page that sent the request
+  originTabId?: number
+  originFrameId?: number
+  // Tab the tools currently act on; starts at the origin and follows tabs the agent opens or switches to
+  tabId?: number
+  // Tabs the agent created during the run and hasn't closed
+  openedTabIds: number[]
+}
+
+export function createBrowserContext(tabId?: number, frameId?: number): BrowserExecutionContext {
+  return { originTabId: tabId, originFrameId: frameId, tabId, openedTabIds: [] }
+}
+
+// The context travels with each tool call in the run config (see callTool in agent.ts)
+const getContext = (config?: ToolRunnableConfig): BrowserExecutionContext | undefined => config?.configurable?.browserContext
+
 async function getActiveTabId(): Promise<number> {
   const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
   const tab = tabs[0]
@@ -10,76 +30,100 @@ async function getActiveTabId(): Promise<number> {
   return tab.id
 }
 
-async function waitForTabComplete(tabId: number, timeout = 15000): Promise<void> {
+// Requests without a tab (e.g. re-runs from the options page) act on the active tab as before
+async function getTargetTabId(context?: BrowserExecutionContext): Promise<number> {
+  if (context?.tabId != null) return context.tabId
+  if (context?.originTabId != null) throw new Error("The tab this request came from was closed")
+  return getActiveTabId()
+}
+
+// The frame id only means something in the tab it came from
+const getTargetFrameId = (context: BrowserExecutionContext | undefined, tabId: number) =>
+  context && tabId === context.originTabId ? context.originFrameId : undefined
+
+function trackOpenedTab(context: BrowserExecutionContext | undefined, tabId: number, target: boolean) {
+  if (!context) return
+  if (!context.openedTabIds.includes(tabId)) context.openedTabIds.push(tabId)
+  if (target) context.tabId = tabId
+}
+
+// After a tab closes the tools fall back to the origin tab, or fail if that was the one closed
+function forgetTab(context: BrowserExecutionContext | undefined, tabId: number) {
+  if (!context) return
+  context.openedTabIds = context.openedTabIds.filter(id => id !== tabId)
+  if (context.tabId === tabId) context.tabId = tabId === context.originTabId ? undefined : context.originTabId
+}
+
+async function waitForTabComplete(tabId: number, timeout = 15000, signal?: AbortSignal): Promise<void> {
   let done = false
   await new Promise<void>((resolve, reject) => {
-    const timer = setTimeout(() => {
+    const finish = (error?: Error) => {
       if (done) return
       done = true
+      clearTimeout(timer)
       chrome.tabs.onUpdated.removeListener(listener)
-      reject(new Error("Tab load timeout"))
-    }, timeout)
+      signal?.removeEventListener("abort", onAbort)
+      if (error) reject(error)
+      else resolve()
+    }
+    const timer = setTimeout(() => finish(new Error("Tab load timeout")), timeout)
     const listener = (id: number, info: chrome.tabs.TabChangeInfo) => {
-      if (id !== tabId) return
-      if (info.status === "complete") {
-        if (done) return
-        done = true
-        clearTimeout(timer)
-        chrome.tabs.onUpdated.removeListener(listener)
-        resolve()
-      }
+      if (id === tabId && info.status === "complete") finish()
     }
+    const onAbort = () => finish(new Error("Aborted"))
     chrome.tabs.onUpdated.addListener(listener)
+    if (signal?.aborted) onAbort()
+    else signal?.addEventListener("abort", onAbort, { once: true })
   })
 }
 
-async function execInTab<T>(func: (...args: any[]) => T, args: any[] = []): Promise<T> {
-  const tabId = await getActiveTabId()
-  // Try MV3 scripting API first
-  // Try MV3 scripting API first
-  if ((chrome as any).scripting && (chrome as any).scripting.executeScript) {
-    try {
-      const results = await (chrome as any).scripting.executeScript({ target: { tabId }, func, args })
-      const r = results?.[0]?.result as T
-      return r
-    } catch (e: any) {
-      throw new Error(`Script execution failed: ${e.message}`)
-    }
+// Stop aborts the run's signal (passed in the run config next to the context). Tools check it
+// before anything that changes the page or tabs, so a stopped run doesn't act after the fact.
+function throwIfAborted(config?: ToolRunnableConfig) {
+  if (config?.signal?.aborted) throw new Error("Aborted")
+}
+
+async function execInTab<T>(context: BrowserExecutionContext | undefined, func: (...args: any[]) => T, args: any[] = []): Promise<T> {
+  const tabId = await getTargetTabId(context)
+  try {
+    return await execInSpecificTab(tabId, func, args, getTargetFrameId(context, tabId))
+  } catch (e: any) {
+    throw new Error(`Script execution failed: ${e.message}`)
   }
-  // Fallback for MV2 or browsers without scripting permission
-  if ((chrome as any).tabs && (chrome as any).tabs.executeScript) {
-    const code = `(${func.toString()})(...${JSON.stringify(args)})`
-    const results: any[] = await new Promise((resolve, reject) => {
-      ; (chrome as any).tabs.executeScript(tabId, { code }, (res: any) => {
-        const err = (chrome as any).runtime?.lastError
-        if (err) reject(new Error(err.message))
-        else resolve(res)
-      })
-    })
-    const r = results?.[0] as T
-    return r
+}
+
+// Page scripts that poll register a cancel callback under a token; when the run is stopped a second
+// script calls it, which ends the polling before it clicks or resolves
+const CANCEL_REGISTRY = "__agentBarCancels"
+
+async function execCancellable<T>(config: ToolRunnableConfig | undefined, func: (...args: any[]) => T, args: any[] = []): Promise<T> {
+  throwIfAborted(config)
+  const context = getContext(config)
+  const signal = config?.signal
+  const token = `${Date.now()}-${Math.random().toString(36).slice(2)}`
+  const onAbort = () => {
+    execInTab(context, (registry: string, tok: string) => { (window as any)[registry]?.[tok]?.() }, [CANCEL_REGISTRY, token]).catch(() => { })
   }
-  // Firefox/WebExtension Promise-based API
-  const browserObj: any = (globalThis as any).browser
-  if (browserObj && browserObj.tabs && typeof browserObj.tabs.executeScript === "function") {
-    const code = `(${func.toString()})(...${JSON.stringify(args)})`
-    const results: any[] = await browserObj.tabs.executeScript(tabId, { code })
-    const r = results?.[0] as T
-    return r
+  signal?.addEventListener("abort", onAbort, { once: true })
+  try {
+    return await execInTab(context, func, [...args, CANCEL_REGISTRY, token])
+  } finally {
+    signal?.removeEventListener("abort", onAbort)
   }
-  throw new Error("executeScript API unavailable")
 }
 
-async function execInSpecificTab<T>(tabId: number, func: (...args: any[]) => T, args: any[] = []): Promise<T> {
+async function execInSpecificTab<T>(tabId: number, func: (...args: any[]) => T, args: any[] = [], frameId?: number): Promise<T> {
   if ((chrome as any).scripting && (chrome as any).scripting.executeScript) {
-    const results = await (chrome as any).scripting.executeScript({ target: { tabId }, func, args })
+    const target = frameId != null ? { tabId, frameIds: [frameId] } : { tabId }
+    const results = await (chrome as any).scripting.executeScript({ target, func, args })
     const r = results?.[0]?.result as T
     return r
   }
+  // Fallback for MV2 or browsers without scripting permission
   if ((chrome as any).tabs && (chrome as any).tabs.executeScript) {
     const code = `(${func.toString()})(...${JSON.stringify(args)})`
     const results: any[] = await new Promise((resolve, reject) => {
-      ; (chrome as any).tabs.executeScript(tabId, { code }, (res: any) => {
+      ; (chrome as any).tabs.executeScript(tabId, { code, frameId }, (res: any) => {
         const err = (chrome as any).runtime?.lastError
         if (err) reject(new Error(err.message))
         else resolve(res)
@@ -88,21 +132,41 @@ async function execInSpecificTab<T>(tabId: number, func: (...args: any[]) => T,
     const r = results?.[0] as T
     return r
   }
+  // Firefox/WebExtension Promise-based API
   const browserObj: any = (globalThis as any).browser
   if (browserObj && browserObj.tabs && typeof browserObj.tabs.executeScript === "function") {
     const code = `(${func.toString()})(...${JSON.stringify(args)})`
-    const results: any[] = await browserObj.tabs.executeScript(tabId, { code })
+    const results: any[] = await browserObj.tabs.executeScript(tabId, { code, frameId })
     const r = results?.[0] as T
     return r
   }
   throw new Error("executeScript API unavailable")
 }
 
-export const browser_navigate = tool(async ({ url, waitForLoad, timeout }): Promise<ToolResult<{ url: string }>> => {
+// browser_snapshot tags each element it lists with this attribute, so a ref is just another selector
+const REF_ATTRIBUTE = "data-agent-ref"
+
+// Element refs from browser_snapshot are an alternative to CSS selectors in the tools that act on elements
+function getLocator(selector?: string | null, ref?: number | null): string {
+  if (ref != null) return `[${REF_ATTRIBUTE}="${ref}"]`
+  if (selector) return selector
+  throw new Error("pass a selector or a ref from browser_snapshot")
+}
+
+// A ref that no longer matches belongs to an older snapshot or to an element the page removed
+function explainMissingRef<T>(res: ToolResult<T>, ref?: number | null): ToolResult<T> {
+  if (ref == null || res?.ok || !/not found/.test(res?.error || "")) return res
+  return { ok: false, error: `ref ${ref} not found; the page changed since the snapshot, take a new browser_snapshot` }
+}
+
+const refSchema = z.number().nullable().optional().describe("Element ref from browser_snapshot, instead of a selector")
+
+export const browser_navigate = tool(async ({ url, waitForLoad, timeout }, config): Promise<ToolResult<{ url: string }>> => {
   try {
-    const tabId = await getActiveTabId()
+    const tabId = await getTargetTabId(getContext(config))
+    throwIfAborted(config)
     await chrome.tabs.update(tabId, { url })
-    if (waitForLoad) await waitForTabComplete(tabId, timeout ?? 20000)
+    if (waitForLoad) await waitForTabComplete(tabId, timeout ?? 20000, config?.signal)
     const tabs = await chrome.tabs.get(tabId)
     return { ok: true, result: { url: tabs.url ?? url } }
   } catch (e: any) {
@@ -118,9 +182,9 @@ export const browser_navigate = tool(async ({ url, waitForLoad, timeout }): Prom
   })
 })
 
-export const browser_click_element = tool(async ({ selector, waitForElement, doubleClick, rightClick }): Promise<ToolResult<{ clicked: boolean }>> => {
+export const browser_click_element = tool(async ({ selector, ref, waitForElement, doubleClick, rightClick }, config): Promise<ToolResult<{ clicked: boolean }>> => {
   try {
-    const res = await execInTab((sel: string, wait: boolean, dbl: boolean, rgt: boolean) => {
+    const res = await execCancellable(config, (sel: string, wait: boolean, dbl: boolean, rgt: boolean, registry: string, token: string) => {
       function findEl(s: string) { return document.querySelector<HTMLElement>(s) }
       function ensure(el: HTMLElement | null) { return !!el }
       function click(el: HTMLElement, dbl: boolean, rgt: boolean) {
@@ -136,60 +200,184 @@ export const browser_click_element = tool(async ({ selector, waitForElement, dou
           resolve({ ok: true, result: { clicked: true } })
         }
         if (!wait) { attempt(); return }
+        const cancels = ((window as any)[registry] ||= {})
+        const finish = (result: ToolResult<{ clicked: boolean }>) => { clearInterval(timer); delete cancels[token]; resolve(result) }
+        cancels[token] = () => finish({ ok: false, error: "Aborted" })
         const limit = Date.now() + 8000
         const timer = setInterval(() => {
-          if (Date.now() > limit) { clearInterval(timer); resolve({ ok: false, error: "wait timeout" }); return }
+          if (Date.now() > limit) { finish({ ok: false, error: "wait timeout" }); return }
           const el = findEl(sel)
-          if (el) { clearInterval(timer); click(el, dbl, rgt); resolve({ ok: true, result: { clicked: true } }) }
+          if (el) { click(el, dbl, rgt); finish({ ok: true, result: { clicked: true } }) }
         }, 300)
       })
-    }, [selector, !!waitForElement, !!doubleClick, !!rightClick])
-    return res
+    }, [getLocator(selector, ref), !!waitForElement, !!doubleClick, !!rightClick])
+    return explainMissingRef(res, ref)
   } catch (e: any) {
     return { ok: false, error: e?.message || "click error" }
   }
 }, {
   name: "browser_click_element",
-  description: "Click a page element by CSS selector",
+  description: "Click a page element by CSS selector or by ref from browser_snapshot",
   schema: z.object({
-    selector: z.string().describe("CSS selector"),
+    selector: z.string().nullable().optional().describe("CSS selector"),
+    ref: refSchema,
     waitForElement: z.boolean().nullable().optional().default(true),
     doubleClick: z.boolean().nullable().optional().default(false),
     rightClick: z.boolean().nullable().optional().default(false)
   })
 })
 
-export const browser_type_text = tool(async ({ selector, text, clearFirst, pressEnter }): Promise<ToolResult<{ typed: boolean }>> => {
+type TypeResult = {
+  typed: boolean
+  // How the text went in: per-key events with the native setter, or an editing command for rich editors
+  method: "keys" | "paste" | "execCommand" | "beforeinput" | "dom"
+  // Field content afterwards (masked for passwords), and whether it ended up holding the text
+  value: string
+  matched: boolean
+  submitted?: boolean
+}
+
+export const browser_type_text = tool(async ({ selector, ref, text, clearFirst, pressEnter }, config): Promise<ToolResult<TypeResult>> => {
   try {
-    const res = await execInTab((sel: string, t: string, clr: boolean, enter: boolean) => {
-      const el = document.querySelector<HTMLInputElement | HTMLTextAreaElement>(sel)
-      if (!el) return { ok: false, error: "input not found" }
-      if (clr) el.value = ""
+    throwIfAborted(config)
+    const res = await execInTab(getContext(config), async (sel: string, t: string, clr: boolean, enter: boolean) => {
+      const found = document.querySelector<HTMLElement>(sel)
+      if (!found) return { ok: false, error: "input not found" }
+      const isField = (node: Element | null): node is HTMLInputElement | HTMLTextAreaElement =>
+        !!node && (node.tagName === "TEXTAREA" || (node.tagName === "INPUT" && !["checkbox", "radio", "button", "submit", "reset", "image", "file", "hidden"].includes((node as HTMLInputElement).type)))
+      // Refs and selectors often point at a wrapper; type into the editable inside it
+      const el: HTMLElement | null = isField(found) || found.isContentEditable
+        ? found
+        : found.querySelector<HTMLElement>("input, textarea, [contenteditable=''], [contenteditable=true]")
+      if (!el || (!isField(el) && !el.isContentEditable)) return { ok: false, error: "element is not a text input or editor" }
+      if ((el as HTMLInputElement).disabled || (el as HTMLInputElement).readOnly) return { ok: false, error: "input is disabled or read-only" }
+
+      const keyInit = (key: string): KeyboardEventInit => {
+        // Letters, digits and space share their char code with the key code; other characters would
+        // land on navigation or function keys (e.g. "." is 46, Delete), so they get none
+        const plain = /^[a-z\d ]$/i.test(key)
+        const keyCode = key === "Enter" ? 13 : plain ? key.toUpperCase().charCodeAt(0) : 0
+        const code = key === "Enter" ? "Enter" : key === " " ? "Space" : /^[a-z]$/i.test(key) ? `Key${key.toUpperCase()}` : /^\d$/.test(key) ? `Digit${key}` : ""
+        return { key, code, keyCode, which: keyCode, bubbles: true, cancelable: true, composed: true }
+      }
+      const key = (type: "keydown" | "keypress" | "keyup", k: string) => el.dispatchEvent(new KeyboardEvent(type, keyInit(k)))
+      const beforeInput = (inputType: string, data: string | null) =>
+        el.dispatchEvent(new InputEvent("beforeinput", { inputType, data, bubbles: true, cancelable: true, composed: true }))
+      const input = (inputType: string, data: string | null) =>
+        el.dispatchEvent(new InputEvent("input", { inputType, data, bubbles: true, composed: true }))
+
       el.focus()
-      el.value = t
-      el.dispatchEvent(new Event("input", { bubbles: true }))
-      if (enter) el.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter", bubbles: true }))
-      return { ok: true, result: { typed: true } }
-    }, [selector, text, !!clearFirst, !!pressEnter])
-    return res
+      let method: TypeResult["method"]
+      if (isField(el)) {
+        // Frameworks like React track the value through the prototype setter, so assigning el.value is missed
+        const proto = el.tagName === "TEXTAREA" ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype
+        const setValue = Object.getOwnPropertyDescriptor(proto, "value")!.set!
+        const insert = (data: string) => {
+          const start = el.selectionStart ?? el.value.length
+          const end = el.selectionEnd ?? el.value.length
+          setValue.call(el, el.value.slice(0, start) + data + el.value.slice(end))
+          try { el.setSelectionRange(start + data.length, start + data.length) } catch { /* types without a caret, e.g. email */ }
+        }
+        if (clr && el.value) {
+          if (beforeInput("deleteContentBackward", null)) {
+            setValue.call(el, "")
+            input("deleteContentBackward", null)
+          }
+        } else {
+          try { el.setSelectionRange(el.value.length, el.value.length) } catch { /* see above */ }
+        }
+        // Key by key for normal input so autocomplete and validation run; long text goes in at once like a paste
+        if (t.length <= 200) {
+          method = "keys"
+          for (const ch of Array.from(t)) {
+            const k = ch === "\n" ? "Enter" : ch
+            if (!key("keydown", k)) { key("keyup", k); continue }
+            key("keypress", k)
+            const inputType = ch === "\n" ? "insertLineBreak" : "insertText"
+            if (beforeInput(inputType, ch === "\n" ? null : ch) && !(ch === "\n" && el.tagName === "INPUT")) {
+              insert(ch)
+              input(inputType, ch === "\n" ? null : ch)
+            }
+            key("keyup", k)
+          }
+        } else {
+          method = "paste"
+          if (beforeInput("insertFromPaste", t)) {
+            insert(t)
+            input("insertFromPaste", t)
+          }
+        }
+        el.dispatchEvent(new Event("change", { bubbles: true }))
+      } else {
+        // Rich editors (Notion, Gmail, Slack) keep their own model and listen for editing commands and beforeinput
+        const selection = window.getSelection()
+        const range = document.createRange()
+        range.selectNodeContents(el)
+        if (!clr) range.collapse(false)
+        selection?.removeAllRanges()
+        selection?.addRange(range)
+        // insertText replaces the selection, which covers the old content when clearing. Once the command
+        // went through the text is in, even if the editor rewrote spaces or lines, so it is never inserted twice
+        if (document.execCommand("insertText", false, t)) {
+          method = "execCommand"
+        } else if (!beforeInput("insertText", t)) {
+          // The editor took over the insertion
+          method = "beforeinput"
+        } else {
+          method = "dom"
+          const target = selection && selection.rangeCount ? selection.getRangeAt(0) : range
+          target.deleteContents()
+          target.insertNode(document.createTextNode(t))
+          target.collapse(false)
+          input("insertText", t)
+        }
+      }
+
+      let submitted: boolean | undefined
+      if (enter) {
+        const proceed = key("keydown", "Enter")
+        if (proceed) key("keypress", "Enter")
+        key("keyup", "Enter")
+        // Synthetic keys have no default action, so submit the form ourselves like a real Enter in a text field
+        const form = el.tagName === "INPUT" ? (el as HTMLInputElement).form : null
+        if (proceed && form) {
+          form.requestSubmit()
+          submitted = true
+        }
+      }
+
+      // Editors such as Draft.js re-render after the event, so give them a moment before reading back
+      if (!isField(el)) await new Promise(resolve => setTimeout(resolve, 50))
+      const raw = isField(el) ? el.value : el.innerText
+      const value = (el as HTMLInputElement).type === "password" ? "•".repeat(raw.length) : raw.length > 500 ? raw.slice(0, 499) + "…" : raw
+      // \s also covers the non-breaking spaces editors put in for repeated spaces
+      const normalize = (s: string) => s.replace(/\s+/g, " ").trim()
+      const matched = normalize(raw).includes(normalize(t))
+      return { ok: true, result: { typed: true, method, value, matched, submitted } }
+    }, [getLocator(selector, ref), text, !!clearFirst, !!pressEnter])
+    return explainMissingRef(res, ref)
   } catch (e: any) {
     return { ok: false, error: e?.message || "type error" }
   }
 }, {
   name: "browser_type_text",
-  description: "Type text into an input by selector",
+  description: "Type text into an input, textarea or rich text editor by selector or by ref from browser_snapshot. Returns the field content afterwards; check `matched` to see whether the text landed",
   schema: z.object({
-    selector: z.string().describe("Input selector"),
+    selector: z.string().nullable().optional().describe("Input selector"),
+    ref: refSchema,
     text: z.string().describe("Text to input"),
     clearFirst: z.boolean().nullable().optional().default(true),
-    pressEnter: z.boolean().nullable().optional().default(false)
+    pressEnter: z.boolean().nullable().optional().default(false).describe("Press Enter afterwards, e.g. to submit a search or send a message")
   })
 })
 
-export const browser_wait_for_element = tool(async ({ selector, state, timeout }): Promise<ToolResult<{ fulfilled: boolean }>> => {
+export const browser_wait_for_element = tool(async ({ selector, state, timeout }, config): Promise<ToolResult<{ fulfilled: boolean }>> => {
   try {
-    const res = await execInTab((sel: string, st: string, to: number) => {
+    const res = await execCancellable(config, (sel: string, st: string, to: number, registry: string, token: string) => {
       return new Promise<ToolResult<{ fulfilled: boolean }>>((resolve) => {
+        const cancels = ((window as any)[registry] ||= {})
+        const finish = (result: ToolResult<{ fulfilled: boolean }>) => { clearInterval(poll); delete cancels[token]; resolve(result) }
+        cancels[token] = () => finish({ ok: false, error: "Aborted" })
         const end = Date.now() + to
         const ok = (el: Element | null) => {
           if (st === "visible") return !!el && (el as HTMLElement).offsetParent !== null
@@ -200,8 +388,8 @@ export const browser_wait_for_element = tool(async ({ selector, state, timeout }
         }
         const poll = setInterval(() => {
           const el = document.querySelector(sel)
-          if (ok(el)) { clearInterval(poll); resolve({ ok: true, result: { fulfilled: true } }) }
-          else if (Date.now() > end) { clearInterval(poll); resolve({ ok: false, error: "timeout" }) }
+          if (ok(el)) finish({ ok: true, result: { fulfilled: true } })
+          else if (Date.now() > end) finish({ ok: false, error: "timeout" })
         }, 300)
       })
     }, [selector, state ?? "visible", timeout ?? 10000])
@@ -219,9 +407,10 @@ export const browser_wait_for_element = tool(async ({ selector, state, timeout }
   })
 })
 
-export const browser_scroll_page = tool(async ({ direction, distance, selector, smooth }): Promise<ToolResult<{ scrolled: boolean }>> => {
+export const browser_scroll_page = tool(async ({ direction, distance, selector, smooth }, config): Promise<ToolResult<{ scrolled: boolean }>> => {
   try {
-    const res = await execInTab((dir: string, dist: number, sel?: string, sm?: boolean) => {
+    throwIfAborted(config)
+    const res = await execInTab(getContext(config), (dir: string, dist: number, sel?: string, sm?: boolean) => {
       if (sel) {
         const el = document.querySelector(sel)
         if (!el) return { ok: false, error: "element not found" }
@@ -248,12 +437,15 @@ export const browser_scroll_page = tool(async ({ direction, distance, selector,
   })
 })
 
-export const browser_take_screenshot = tool(async ({ area: _area, format }): Promise<ToolResult<{ dataUrl: string }>> => {
+export const browser_take_screenshot = tool(async ({ area: _area, format }, config): Promise<ToolResult<{ dataUrl: string }>> => {
   try {
     void _area
+    // Only the visible tab of a window can be captured, so a tab in the background can't be shot
+    const tab = await chrome.tabs.get(await getTargetTabId(getContext(config)))
+    if (!tab.active) return { ok: false, error: "the target tab is not the visible tab of its window" }
     const dataUrl = await new Promise<string>((resolve, reject) => {
       try {
-        chrome.tabs.captureVisibleTab({ format: format === "jpeg" ? "jpeg" : "png" }, (dataUrl) => resolve(dataUrl))
+        chrome.tabs.captureVisibleTab(tab.windowId, { format: format === "jpeg" ? "jpeg" : "png" }, (dataUrl) => resolve(dataUrl))
       } catch (e) {
         reject(e as any)
       }
@@ -271,9 +463,9 @@ export const browser_take_screenshot = tool(async ({ area: _area, format }): Pro
   })
 })
 
-export const browser_extract_content = tool(async ({ selector }): Promise<ToolResult<{ text: string }>> => {
+export const browser_extract_content = tool(async ({ selector }, config): Promise<ToolResult<{ text: string }>> => {
   try {
-    const res = await execInTab((sel?: string) => {
+    const res = await execInTab(getContext(config), (sel?: string) => {
       const scope = sel ? (document.querySelector(sel) || document) : document
       let text = ""
       if (scope === document) {
@@ -298,9 +490,10 @@ export const browser_extract_content = tool(async ({ selector }): Promise<ToolRe
   })
 })
 
-export const browser_select_dropdown = tool(async ({ selector, value, selectBy }): Promise<ToolResult<{ selected: boolean }>> => {
+export const browser_select_dropdown = tool(async ({ selector, ref, value, selectBy }, config): Promise<ToolResult<{ selected: boolean }>> => {
   try {
-    const res = await execInTab((sel: string, val: string, by: string) => {
+    throwIfAborted(config)
+    const res = await execInTab(getContext(config), (sel: string, val: string, by: string) => {
       const el = document.querySelector<HTMLSelectElement>(sel)
       if (!el) return { ok: false, error: "select not found" }
       if (by === "index") { const i = parseInt(val, 10); if (!isNaN(i) && el.options[i]) el.selectedIndex = i }
@@ -308,26 +501,28 @@ export const browser_select_dropdown = tool(async ({ selector, value, selectBy }
       else { el.value = val }
       el.dispatchEvent(new Event("change", { bubbles: true }))
       return { ok: true, result: { selected: true } }
-    }, [selector, value, selectBy ?? "value"])
-    return res
+    }, [getLocator(selector, ref), value, selectBy ?? "value"])
+    return explainMissingRef(res, ref)
   } catch (e: any) {
     return { ok: false, error: e?.message || "select error" }
   }
 }, {
   name: "browser_select_dropdown",
-  description: "Select an option in a dropdown",
+  description: "Select an option in a dropdown by selector or by ref from browser_snapshot",
   schema: z.object({
-    selector: z.string().describe("Select element selector"),
+    selector: z.string().nullable().optional().describe("Select element selector"),
+    ref: refSchema,
     value: z.string().describe("Value/text/index"),
     selectBy: z.enum(["value", "text", "index"]).nullable().optional().default("value")
   })
 })
 
-export const browser_refresh_page = tool(async ({ force, waitForLoad }): Promise<ToolResult<{ refreshed: boolean }>> => {
+export const browser_refresh_page = tool(async ({ force, waitForLoad }, config): Promise<ToolResult<{ refreshed: boolean }>> => {
   try {
-    const tabId = await getActiveTabId()
+    const tabId = await getTargetTabId(getContext(config))
+    throwIfAborted(config)
     await chrome.tabs.reload(tabId, { bypassCache: !!force })
-    if (waitForLoad) await waitForTabComplete(tabId, 15000)
+    if (waitForLoad) await waitForTabComplete(tabId, 15000, config?.signal)
     return { ok: true, result: { refreshed: true } }
   } catch (e: any) {
     return { ok: false, error: e?.message || "refresh error" }
@@ -341,9 +536,10 @@ export const browser_refresh_page = tool(async ({ force, waitForLoad }): Promise
   })
 })
 
-export const browser_open_search_tab = tool(async ({ engine, query, url, waitForLoad, timeout, closeAfter, returnInfo }): Promise<ToolResult<{ openedUrl: string; tabId: number; title?: string; closed?: boolean }>> => {
+export const browser_open_search_tab = tool(async ({ engine, query, url, waitForLoad, timeout, closeAfter, returnInfo }, config): Promise<ToolResult<{ openedUrl: string; tabId: number; title?: string; closed?: boolean }>> => {
   try {
-    const currentTab = await getActiveTabId()
+    const context = getContext(config)
+    const currentTab = await getTargetTabId(context)
     const encode = (s: string) => encodeURIComponent(s)
     const buildUrl = (): string => {
       if (url && url.trim()) return url
@@ -355,9 +551,12 @@ export const browser_open_search_tab = tool(async ({ engine, query, url, waitFor
       return `https://duckduckgo.com/?q=${q}`
     }
     const targetUrl = buildUrl()
+    throwIfAborted(config)
     const tab = await chrome.tabs.create({ url: targetUrl, active: true })
     const tabId = tab.id!
-    if (waitForLoad ?? true) await waitForTabComplete(tabId, timeout ?? 20000)
+    // A tab that stays open becomes the target of the following tools
+    trackOpenedTab(context, tabId, !(closeAfter ?? true))
+    if (waitForLoad ?? true) await waitForTabComplete(tabId, timeout ?? 20000, config?.signal)
     let title: string | undefined = undefined
     if ((returnInfo ?? "title") !== "none") {
       const res = await execInSpecificTab(tabId, () => ({ title: document.title }))
@@ -365,6 +564,7 @@ export const browser_open_search_tab = tool(async ({ engine, query, url, waitFor
     }
     if (closeAfter ?? true) {
       await chrome.tabs.remove(tabId)
+      forgetTab(context, tabId)
       try { await chrome.tabs.update(currentTab, { active: true }) } catch {}
       return { ok: true, result: { openedUrl: targetUrl, tabId, title, closed: true } }
     }
@@ -386,19 +586,27 @@ export const browser_open_search_tab = tool(async ({ engine, query, url, waitFor
   })
 })
 
-export const browser_tab_management = tool(async ({ action, target, url }): Promise<ToolResult<{ action: string; tabId?: number }>> => {
+export const browser_tab_management = tool(async ({ action, target, url }, config): Promise<ToolResult<{ action: string; tabId?: number }>> => {
   try {
+    const context = getContext(config)
+    throwIfAborted(config)
     if (action === "new") {
       const tab = await chrome.tabs.create({ url: url || "about:blank" })
+      trackOpenedTab(context, tab.id!, true)
       return { ok: true, result: { action, tabId: tab.id! } }
     }
-    const current = await getActiveTabId()
-    if (action === "close") { await chrome.tabs.remove(current); return { ok: true, result: { action } } }
+    const current = await getTargetTabId(context)
+    if (action === "close") { await chrome.tabs.remove(current); forgetTab(context, current); return { ok: true, result: { action } } }
     if (action === "switch") {
-      if (typeof target === "number") { await chrome.tabs.update(target, { active: true }); return { ok: true, result: { action, tabId: target } } }
+      const switchTo = async (tabId: number) => {
+        await chrome.tabs.update(tabId, { active: true })
+        if (context) context.tabId = tabId
+        return { ok: true, result: { action, tabId } }
+      }
+      if (typeof target === "number") return await switchTo(target)
       const tabs = await chrome.tabs.query({})
       const found = tabs.find(t => t.url && target && t.url.includes(String(target)))
-      if (found?.id != null) { await chrome.tabs.update(found.id, { active: true }); return { ok: true, result: { action, tabId: found.id } } }
+      if (found?.id != null) return await switchTo(found.id)
       return { ok: false, error: "target tab not found" }
     }
     if (action === "open") { await chrome.tabs.update(current, { url: url! }); return { ok: true, result: { action, tabId: current } } }
@@ -408,7 +616,7 @@ export const browser_tab_management = tool(async ({ action, target, url }): Prom
   }
 }, {
   name: "browser_tab_management",
-  description: "Manage tabs: new, open, close, switch",
+  description: "Manage tabs: new (opens a tab and works in it), open (loads a URL in the current tab), close, switch (works in that tab from now on)",
   schema: z.object({
     action: z.enum(["open", "close", "switch", "new"]),
     target: z.union([z.string(), z.number()]).nullable().optional(),
@@ -416,9 +624,9 @@ export const browser_tab_management = tool(async ({ action, target, url }): Prom
   })
 })
 
-export const browser_get_focused_input = tool(async ({ includeRect }): Promise<ToolResult<{ tag: string; id?: string; name?: string; type?: string; value?: string; placeholder?: string; contenteditable?: boolean; classList?: string[]; selector?: string; rect?: { left: number; top: number; right: number; bottom: number; width: number; height: number } }>> => {
+export const browser_get_focused_input = tool(async ({ includeRect }, config): Promise<ToolResult<{ tag: string; id?: string; name?: string; type?: string; value?: string; placeholder?: string; contenteditable?: boolean; classList?: string[]; selector?: string; rect?: { left: number; top: number; right: number; bottom: number; width: number; height: number } }>> => {
   try {
-    const res = await execInTab((incRect: boolean) => {
+    const res = await execInTab(getContext(config), (incRect: boolean) => {
       const ae = document.activeElement as HTMLElement | null
       if (!ae) return { ok: false, error: "no active element" }
       const isInput = ae.tagName === "INPUT" || ae.tagName === "TEXTAREA" || ae.getAttribute("contenteditable") === "true"
@@ -459,9 +667,9 @@ export const browser_get_focused_input = tool(async ({ includeRect }): Promise<T
   })
 })
 
-export const browser_get_selected_text = tool(async ({ includeRect }): Promise<ToolResult<{ text: string; rect?: { left: number; top: number; right: number; bottom: number; width: number; height: number }; endRect?: { left: number; top: number; right: number; bottom: number; width: number; height: number } }>> => {
+export const browser_get_selected_text = tool(async ({ includeRect }, config): Promise<ToolResult<{ text: string; rect?: { left: number; top: number; right: number; bottom: number; width: number; height: number }; endRect?: { left: number; top: number; right: number; bottom: number; width: number; height: number } }>> => {
   try {
-    const res = await execInTab((incRect: boolean) => {
+    const res = await execInTab(getContext(config), (incRect: boolean) => {
       const sel = window.getSelection()
       const ae = document.activeElement as HTMLElement | null
       const isInput = ae && (ae.tagName === "INPUT" || ae.tagName === "TEXTAREA")
@@ -513,6 +721,147 @@ export const browser_get_selected_text = tool(async ({ includeRect }): Promise<T
   })
 })
 
+type SnapshotResult = { url: string; title: string; count: number; truncated: boolean; outline: string }
+
+export const browser_snapshot = tool(async ({ selector, includeHidden, maxElements }, config): Promise<ToolResult<SnapshotResult>> => {
+  try {
+    const res = await execInTab(getContext(config), (attr: string, sel: string | null, hidden: boolean, max: number) => {
+      const root = sel ? document.querySelector(sel) : document.body
+      if (!root) return { ok: false, error: "element not found" }
+      // Refs of an earlier snapshot are dropped so a stale ref can't hit a different element
+      document.querySelectorAll(`[${attr}]`).forEach(el => el.removeAttribute(attr))
+      const INTERACTIVE = "a[href],button,input:not([type=hidden]),select,textarea,summary,[contenteditable=''],[contenteditable=true],[role=button],[role=link],[role=checkbox],[role=radio],[role=switch],[role=tab],[role=menuitem],[role=option],[role=combobox],[role=textbox],[role=searchbox],[role=slider],[tabindex]:not([tabindex='-1'])"
+      const clip = (s: string, n = 80) => {
+        const t = s.replace(/\s+/g, " ").trim()
+        return t.length > n ? t.slice(0, n - 1) + "…" : t
+      }
+      const implicitRole = (el: HTMLElement): string => {
+        const tag = el.tagName.toLowerCase()
+        if (tag === "a") return "link"
+        if (tag === "button" || tag === "summary") return "button"
+        if (tag === "select") return (el as HTMLSelectElement).multiple ? "listbox" : "combobox"
+        if (tag === "textarea" || el.isContentEditable) return "textbox"
+        if (tag === "input") {
+          const type = (el as HTMLInputElement).type
+          if (type === "checkbox" || type === "radio") return type
+          if (type === "range") return "slider"
+          if (type === "search") return "searchbox"
+          if (["button", "submit", "reset", "image"].includes(type)) return "button"
+          return "textbox"
+        }
+        return "generic"
+      }
+      const accessibleName = (el: HTMLElement): string => {
+        const labelledBy = el.getAttribute("aria-labelledby")
+        if (labelledBy) {
+          const text = labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent || "").join(" ")
+          if (text.trim()) return text
+        }
+        const aria = el.getAttribute("aria-label")
+        if (aria?.trim()) return aria
+        const labels = (el as HTMLInputElement).labels
+        if (labels && labels.length) return Array.from(labels).map(l => l.textContent || "").join(" ")
+        const tag = el.tagName.toLowerCase()
+        if (tag === "input" && ["button", "submit", "reset"].includes((el as HTMLInputElement).type)) return (el as HTMLInputElement).value
+        const text = tag === "input" || tag === "select" || tag === "textarea" ? "" : el.innerText || el.textContent || ""
+        if (text.trim()) return text
+        const img = el.querySelector("img[alt]")
+        return el.getAttribute("title") || el.getAttribute("placeholder") || (el as HTMLInputElement).alt || img?.getAttribute("alt") || ""
+      }
+      const currentValue = (el: HTMLElement): string | undefined => {
+        const tag = el.tagName.toLowerCase()
+        if (tag === "select") return Array.from((el as HTMLSelectElement).selectedOptions).map(o => o.textContent || o.value).join(", ")
+        if (tag === "textarea") return (el as HTMLTextAreaElement).value
+        if (tag === "input") {
+          const input = el as HTMLInputElement
+          if (["checkbox", "radio", "button", "submit", "reset", "image"].includes(input.type)) return undefined
+          return input.type === "password" ? (input.value ? "••••" : "") : input.value
+        }
+        if (el.isContentEditable) return el.innerText
+        return el.getAttribute("aria-valuetext") || el.getAttribute("aria-valuenow") || undefined
+      }
+      const isRendered = (el: HTMLElement) => {
+        const style = getComputedStyle(el)
+        if (style.visibility === "hidden" || style.display === "none") return false
+        const r = el.getBoundingClientRect()
+        return r.width > 0 && r.height > 0
+      }
+      const lines: string[] = []
+      let count = 0
+      let truncated = false
+      for (const el of Array.from(root.querySelectorAll<HTMLElement>(INTERACTIVE))) {
+        const rendered = isRendered(el)
+        if (!rendered && !hidden) continue
+        if (count >= max) { truncated = true; break }
+        count++
+        el.setAttribute(attr, String(count))
+        const role = el.getAttribute("role") || implicitRole(el)
+        let line = `[${count}] ${role} "${clip(accessibleName(el))}"`
+        const value = currentValue(el)
+        if (value) line += ` value="${clip(value, 60)}"`
+        const states: string[] = []
+        if ((el as HTMLInputElement).disabled || el.getAttribute("aria-disabled") === "true") states.push("disabled")
+        if ((el as HTMLInputElement).checked || el.getAttribute("aria-checked") === "true" || el.getAttribute("aria-selected") === "true") states.push("checked")
+        const expanded = el.getAttribute("aria-expanded")
+        if (expanded) states.push(expanded === "true" ? "expanded" : "collapsed")
+        if ((el as HTMLInputElement).required) states.push("required")
+        if (document.activeElement === el) states.push("focused")
+        if (!rendered) states.push("hidden")
+        else {
+          const r = el.getBoundingClientRect()
+          if (r.bottom < 0 || r.top > window.innerHeight || r.right < 0 || r.left > window.innerWidth) states.push("offscreen")
+        }
+        if (states.length) line += ` (${states.join(", ")})`
+        lines.push(line)
+      }
+      return { ok: true, result: { url: location.href, title: document.title, count, truncated, outline: lines.join("\n") } }
+    }, [REF_ATTRIBUTE, selector ?? null, !!includeHidden, maxElements ?? 200])
+    return res
+  } catch (e: any) {
+    return { ok: false, error: e?.message || "snapshot error" }
+  }
+}, {
+  name: "browser_snapshot",
+  description: "List the interactive elements of the page as numbered lines: [ref] role \"name\" value and state. Pass a ref to browser_click_element, browser_type_text or browser_select_dropdown instead of guessing a selector. Refs are replaced by the next snapshot",
+  schema: z.object({
+    selector: z.string().nullable().optional().describe("Only list elements inside this element"),
+    includeHidden: z.boolean().nullable().optional().default(false),
+    maxElements: z.number().nullable().optional().default(200)
+  })
+})
+
+export const web_search = tool(async ({ query, count }, config): Promise<ToolResult<SearchResponse>> => {
+  try {
+    const backend: SearchBackend | undefined = config?.configurable?.searchBackend
+    if (!backend) return { ok: false, error: "web search is not configured (add a Serper API key or a search endpoint in the options); use browser_open_search_tab instead" }
+    return { ok: true, result: await backend.search(query, Math.min(Math.max(count ?? 5, 1), 10)) }
+  } catch (e: any) {
+    return { ok: false, error: e?.message || "search error" }
+  }
+}, {
+  name: "web_search",
+  description: "Search the web without opening a tab; returns title, URL and snippet per result. Use fetch_page_text to read a result",
+  schema: z.object({
+    query: z.string().describe("Search query"),
+    count: z.number().nullable().optional().default(5).describe("Number of results, 1-10")
+  })
+})
+
+export const fetch_page_text = tool(async ({ url, maxChars }): Promise<ToolResult<PageText>> => {
+  try {
+    return { ok: true, result: await fetchPageText(url, maxChars ?? 8000) }
+  } catch (e: any) {
+    return { ok: false, error: e?.message || "fetch error" }
+  }
+}, {
+  name: "fetch_page_text",
+  description: "Download a page by URL without opening a tab and return its readable text",
+  schema: z.object({
+    url: z.string().describe("http(s) URL, e.g. from web_search results"),
+    maxChars: z.number().nullable().optional().default(8000)
+  })
+})
+
 export const browserTools = {
   browser_navigate,
   browser_click_element,
@@ -526,7 +875,10 @@ export const browserTools = {
   browser_open_search_tab,
   browser_tab_management,
   browser_get_focused_input,
-  browser_get_selected_text
+  browser_get_selected_text,
+  browser_snapshot,
+  web_search,
+  fetch_page_text
 }
 
 export type BrowserToolName = keyof typeof browserTools
@@ -0,0 +1,59 @@
+import type { LLMProvider } from "~/types"
+
+// Longest side of images sent to the model; providers bill by pixels, so full-resolution captures are wasteful
+export const IMAGE_MAX_DIMENSION = 1024
+
+// Part of a capture to keep, in CSS pixels of a viewport that was viewportWidth wide
+export type ImageRegion = { x: number; y: number; width: number; height: number; viewportWidth: number }
+
+// OpenAI and Claude accept image input, apart from a few text-only models
+const TEXT_ONLY_MODELS = [/^gpt-3\.5/i, /^o1-mini/i, /^o3-mini/i, /^text-/i, /^claude-2/i, /^claude-instant/i]
+
+// The same test @langchain/google-genai applies before it sends images; other Gemini models
+// (including the default gemini-pro) make it throw "This model does not support images"
+const isGeminiVisionModel = (model: string) => {
+  const name = model.replace(/^models\//, "")
+  return name.includes("vision") || name.startsWith("gemini-1.5") || name.startsWith("gemini-2")
+}
+
+export function supportsVision(provider: LLMProvider): boolean {
+  if (provider.type === "gemini") return isGeminiVisionModel(provider.model)
+  if (provider.type !== "openai" && provider.type !== "claude") return false
+  return !TEXT_ONLY_MODELS.some(pattern => pattern.test(provider.model))
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer)
+  let binary = ""
+  // Chunked so large images don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// Crops and downscales a captured image to a JPEG data URL. Works in the service worker through
+// OffscreenCanvas; where that is missing the capture is returned unchanged.
+export async function prepareImage(dataUrl: string, options: { region?: ImageRegion; maxDimension?: number } = {}): Promise<string> {
+  if (typeof OffscreenCanvas === "undefined" || typeof createImageBitmap === "undefined") return dataUrl
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob())
+  let sx = 0, sy = 0, sw = bitmap.width, sh = bitmap.height
+  const region = options.region
+  if (region && region.viewportWidth > 0) {
+    // Captures are in device pixels; the ratio also covers page zoom
+    const scale = bitmap.width / region.viewportWidth
+    sx = Math.max(0, Math.floor(region.x * scale))
+    sy = Math.max(0, Math.floor(region.y * scale))
+    sw = Math.min(bitmap.width - sx, Math.ceil(region.width * scale))
+    sh = Math.min(bitmap.height - sy, Math.ceil(region.height * scale))
+    if (sw <= 0 || sh <= 0) throw new Error("The selected region is outside the visible page")
+  }
+  const ratio = Math.min(1, (options.maxDimension ?? IMAGE_MAX_DIMENSION) / Math.max(sw, sh))
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(sw * ratio)), Math.max(1, Math.round(sh * ratio)))
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return dataUrl
+  ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.85 })
+  return `data:image/jpeg;base64,${arrayBufferToBase64(await blob.arrayBuffer())}`
+}
@@ -1,4 +1,10 @@
 export { executeBrowserAgent } from "./agent"
-export { browserTools } from "./browserTools"
+export { browserTools, createBrowserContext } from "./browserTools"
 export { createChatModel } from "./modelFactory"
-export type { BrowserAgentResult } from "./agent"
+export { getToolRisk, isToolAllowed, toolRiskLevels } from "./permissions"
+export type { BrowserAgentResult, BrowserAgentOptions } from "./agent"
+export { getSearchBackend } from "./webSearch"
+export { prepareImage, supportsVision } from "./images"
+export type { BrowserExecutionContext } from "./browserTools"
+export type { SearchBackend, SearchResult } from "./webSearch"
+export type { ImageRegion } from "./images"
@@ -2,18 +2,104 @@ import type { LLMProvider } from "~/types"
 import { ChatOpenAI } from "@langchain/openai"
 import { ChatAnthropic } from "@langchain/anthropic"
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai"
+import { getLocalApiBase } from "~/utils/localModels"
+
+function trimBaseUrl(url?: string) {
+  const trimmed = (url || "").trim().replace(/\/+$/, "")
+  return trimmed || undefined
+}
+
+// Query parameters in the base URL (e.g. Azure's ?api-version=) must be passed separately to the OpenAI client
+function splitQuery(url?: string): { baseURL?: string; defaultQuery?: Record<string, string> } {
+  const base = trimBaseUrl(url)
+  if (!base || !base.includes("?")) return { baseURL: base }
+  const [path, query] = base.split("?", 2)
+  return { baseURL: trimBaseUrl(path), defaultQuery: Object.fromEntries(new URLSearchParams(query)) }
+}
+
+// The Anthropic SDK appends /v1/messages itself
+export function anthropicApiUrl(url?: string) {
+  return trimBaseUrl(url)?.replace(/\/v1$/, "")
+}
+
+export const GEMINI_API_URL = "https://generativelanguage.googleapis.com"
+
+// The Gemini SDK builds {baseUrl}/{apiVersion}/models/..., so a trailing version segment is split off.
+// The official endpoint keeps the SDK's own API version, which is the one tool calling is tested against.
+export function geminiEndpoint(url?: string): { baseUrl?: string; apiVersion?: string } {
+  const base = trimBaseUrl(url)
+  const match = base?.match(/^(.*)\/(v\d+(?:alpha|beta)?\d*)$/)
+  const root = match ? match[1] : base
+  if (!root || root === GEMINI_API_URL) return {}
+  return match ? { baseUrl: match[1], apiVersion: match[2] } : { baseUrl: base }
+}
+
+type GeminiRequestOptions = { customHeaders?: Record<string, string>; timeout?: number }
+
+const hasRequestOptions = (client: unknown): client is { _requestOptions: GeminiRequestOptions } =>
+  !!client && typeof client === "object" && typeof (client as { _requestOptions?: unknown })._requestOptions === "object"
+
+// LangChain only forwards baseUrl and apiVersion to the Gemini SDK. Headers and timeouts go into the
+// _requestOptions of the SDK's GenerativeModel, which is internal to both packages: the shape is checked
+// first so an upgrade that changes it is logged instead of silently dropping the settings.
+function applyGeminiRequestOptions(chat: ChatGoogleGenerativeAI, options: GeminiRequestOptions) {
+  const client: unknown = Reflect.get(chat, "client")
+  if (!hasRequestOptions(client)) {
+    console.warn("⚠️ Gemini client has no _requestOptions; custom headers and timeout are not applied")
+    return
+  }
+  client._requestOptions = { ...client._requestOptions, ...options }
+}
 
 export function createChatModel(provider: LLMProvider) {
   const temperature = provider.temperature ?? 0
   const model = provider.model
-  if (provider.type === "openai") {
-    return new ChatOpenAI({ apiKey: provider.apiKey, model, temperature })
-  }
+  const maxTokens = provider.maxTokens || undefined
+  const timeout = provider.timeoutMs || undefined
+  const headers = provider.headers && Object.keys(provider.headers).length ? provider.headers : undefined
+  // Retries and provider failover are handled by the caller (see utils/providerFailover)
+  const maxRetries = 0
   if (provider.type === "claude") {
-    return new ChatAnthropic({ apiKey: provider.apiKey, model, temperature })
+    return new ChatAnthropic({
+      apiKey: provider.apiKey,
+      model,
+      temperature,
+      maxRetries,
+      maxTokens,
+      anthropicApiUrl: anthropicApiUrl(provider.baseUrl),
+      clientOptions: { defaultHeaders: headers, timeout }
+    })
   }
   if (provider.type === "gemini") {
-    return new ChatGoogleGenerativeAI({ apiKey: provider.apiKey, model, temperature })
+    const chat = new ChatGoogleGenerativeAI({ apiKey: provider.apiKey, model, temperature, maxRetries, maxOutputTokens: maxTokens, ...geminiEndpoint(provider.baseUrl) })
+    if (headers || timeout) applyGeminiRequestOptions(chat, { customHeaders: headers, timeout })
+    return chat
+  }
+  if (provider.type === "local") {
+    // Ollama, LM Studio and llama.cpp all serve the OpenAI chat API; the client insists on some key
+    return new ChatOpenAI({
+      apiKey: provider.apiKey || "local",
+      model,
+      temperature,
+      maxRetries,
+      maxTokens,
+      timeout,
+      configuration: { baseURL: getLocalApiBase(provider.baseUrl), defaultHeaders: headers }
+    })
   }
-  return new ChatOpenAI({ apiKey: provider.apiKey, model, temperature }, { baseURL: provider.baseUrl })
+  // OpenAI and the OpenAI-compatible providers (DeepSeek, Qwen, GLM, gateways and proxies)
+  return new ChatOpenAI({
+    apiKey: provider.apiKey,
+    model,
+    temperature,
+    maxRetries,
+    maxTokens,
+    timeout,
+    configuration: {
+      ...splitQuery(provider.baseUrl),
+      defaultHeaders: headers,
+      organization: provider.organization || undefined,
+      project: provider.project || undefined
+    }
+  })
 }
@@ -0,0 +1,37 @@
+import type { ToolPermissionGrant, ToolRiskLevel } from "~/types"
+import type { BrowserToolName } from "./browserTools"
+
+// High-risk tools change page or tab state (submit forms, leave the page, close tabs) and need user approval
+export const toolRiskLevels: Record<BrowserToolName, ToolRiskLevel> = {
+  browser_navigate: "high",
+  browser_click_element: "high",
+  browser_type_text: "high",
+  browser_wait_for_element: "low",
+  browser_scroll_page: "low",
+  browser_take_screenshot: "low",
+  browser_extract_content: "low",
+  browser_select_dropdown: "high",
+  browser_refresh_page: "high",
+  browser_open_search_tab: "low",
+  browser_tab_management: "high",
+  browser_get_focused_input: "low",
+  browser_get_selected_text: "low",
+  browser_snapshot: "low",
+  web_search: "low",
+  fetch_page_text: "low"
+}
+
+export function getToolRisk(name: string, args?: any): ToolRiskLevel {
+  // Opening or switching to a tab is harmless; closing or re-targeting the current one is not
+  if (name === "browser_tab_management") {
+    return args?.action === "new" || args?.action === "switch" ? "low" : "high"
+  }
+  return (toolRiskLevels as Record<string, ToolRiskLevel>)[name] ?? "high"
+}
+
+export function isToolAllowed(grants: ToolPermissionGrant[] | undefined, tool: string, ctx: { host?: string; toolbarId?: string }): boolean {
+  return (grants || []).some(g => g.tool === tool && (
+    (g.scope === "site" && !!ctx.host && g.host === ctx.host) ||
+    (g.scope === "toolbar" && !!ctx.toolbarId && g.toolbarId === ctx.toolbarId)
+  ))
+}
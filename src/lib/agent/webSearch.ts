@@ -0,0 +1,211 @@
+import type { AgentBarConfig } from "~/types"
+
+export type SearchResult = { title: string; url: string; snippet: string }
+export type SearchResponse = { backend: string; query: string; answer?: string; results: SearchResult[] }
+
+// A search service the web_search tool can call; add a backend here to support another API
+export type SearchBackend = {
+  name: string
+  search: (query: string, count: number) => Promise<SearchResponse>
+}
+
+const REQUEST_TIMEOUT = 15000
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const res = await fetch(url, { ...init, credentials: "omit", signal: AbortSignal.timeout(REQUEST_TIMEOUT) })
+  if (!res.ok) {
+    const body = await res.text().catch(() => "")
+    throw new Error(`HTTP ${res.status}${body ? `: ${body.slice(0, 200)}` : ""}`)
+  }
+  return res.json()
+}
+
+export function serperBackend(apiKey: string): SearchBackend {
+  return {
+    name: "serper",
+    search: async (query, count) => {
+      const data = await fetchJson("https://google.serper.dev/search", {
+        method: "POST",
+        headers: { "X-API-KEY": apiKey, "Content-Type": "application/json" },
+        body: JSON.stringify({ q: query, num: count })
+      })
+      const results: SearchResult[] = (data.organic || []).slice(0, count).map((r: any) => ({
+        title: String(r.title || ""),
+        url: String(r.link || ""),
+        snippet: String(r.snippet || "")
+      }))
+      const answer = data.answerBox?.answer || data.answerBox?.snippet || data.knowledgeGraph?.description
+      return { backend: "serper", query, ...(answer && { answer: String(answer) }), results }
+    }
+  }
+}
+
+// Arrays and field names used by common search APIs (SearXNG, Brave, Google CSE, self-hosted proxies)
+const RESULT_LISTS = ["results", "items", "organic", "data", "web.results", "webPages.value"]
+const pick = (item: any, keys: string[]) => keys.map(k => item?.[k]).find(v => typeof v === "string" && v) || ""
+
+function findResultList(data: any): any[] {
+  if (Array.isArray(data)) return data
+  for (const path of RESULT_LISTS) {
+    const list = path.split(".").reduce((obj, key) => obj?.[key], data)
+    if (Array.isArray(list)) return list
+  }
+  return []
+}
+
+// GET endpoint returning JSON; "{query}" and "{count}" in the URL are replaced
+export function jsonEndpointBackend(endpoint: string): SearchBackend {
+  return {
+    name: "json",
+    search: async (query, count) => {
+      const url = endpoint.includes("{query}")
+        ? endpoint.replace(/\{query\}/g, encodeURIComponent(query)).replace(/\{count\}/g, String(count))
+        : `${endpoint}${endpoint.includes("?") ? "&" : "?"}q=${encodeURIComponent(query)}`
+      const data = await fetchJson(url, { headers: { Accept: "application/json" } })
+      const results = findResultList(data)
+        .map((r: any) => ({
+          title: pick(r, ["title", "name"]),
+          url: pick(r, ["url", "link", "href"]),
+          snippet: pick(r, ["snippet", "description", "content", "body"])
+        }))
+        .filter(r => r.url)
+        .slice(0, count)
+      return { backend: "json", query, results }
+    }
+  }
+}
+
+// The backend chosen in the settings, or undefined while it lacks its key or endpoint
+export function getSearchBackend(settings?: AgentBarConfig["settings"]): SearchBackend | undefined {
+  const backend = settings?.webSearch?.backend || "serper"
+  if (backend === "json") {
+    const endpoint = settings?.webSearch?.jsonEndpoint?.trim()
+    return endpoint ? jsonEndpointBackend(endpoint) : undefined
+  }
+  const key = settings?.serperApiKey?.trim()
+  return key ? serperBackend(key) : undefined
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", mdash: "—", ndash: "–", hellip: "…", copy: "©" }
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+  if (code[0] === "#") {
+    const n = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+    return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : match
+  }
+  return ENTITIES[code.toLowerCase()] ?? match
+})
+
+// Service workers have no DOMParser, so readable text is cut out of the markup with patterns.
+// Prefers <article>/<main> when they hold most of the content.
+export function htmlToText(html: string): { title?: string; text: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|svg|template|head|iframe|nav|footer|form)\b[\s\S]*?<\/\1>/gi, " ")
+  const main = cleaned.match(/<(article|main)\b[^>]*>([\s\S]*)<\/\1>/i)?.[2]
+  const toText = (markup: string) => decodeEntities(markup
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<(br|hr)\b[^>]*>|<\/(p|div|h[1-6]|tr|section|article|blockquote|pre|ul|ol|table|header)>/gi, "\n")
+    .replace(/<[^>]+>/g, " "))
+    .replace(/[ \t\f\v\r]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+  const full = toText(cleaned)
+  const focused = main ? toText(main) : ""
+  return { title: title ? decodeEntities(title).trim() : undefined, text: focused.length > full.length / 3 ? focused : full }
+}
+
+export type PageText = { url: string; title?: string; text: string; truncated: boolean; length: number }
+
+function isPrivateIPv4(host: string): boolean {
+  const parts = host.split(".").map(Number)
+  if (parts.length !== 4 || parts.some(n => !Number.isInteger(n) || n < 0 || n > 255)) return false
+  const [a, b] = parts
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127)
+}
+
+function isPrivateIPv6(host: string): boolean {
+  const ip = host.replace(/^\[|\]$/g, "").toLowerCase()
+  if (ip === "::" || ip === "::1") return true
+  // IPv4-mapped addresses, which the URL parser writes in hex (::ffff:7f00:1)
+  const mapped = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (mapped) {
+    const hi = parseInt(mapped[1], 16), lo = parseInt(mapped[2], 16)
+    return isPrivateIPv4([hi >> 8, hi & 255, lo >> 8, lo & 255].join("."))
+  }
+  return /^f[cd][0-9a-f]{2}:/.test(ip) || /^fe[89ab][0-9a-f]:/.test(ip)
+}
+
+// The fetch runs from the extension with access to every host, so a prompt injected by a page could
+// otherwise make the agent read the user's router, intranet or local dev servers
+function assertPublicUrl(url: string) {
+  let parsed: URL
+  try { parsed = new URL(url) } catch { throw new Error("invalid URL") }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new Error("only http(s) URLs can be fetched")
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, "")
+  if (host.startsWith("[")) {
+    if (isPrivateIPv6(host)) throw new Error("local and private network addresses can't be fetched")
+    return
+  }
+  if (isPrivateIPv4(host) || host === "localhost" || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)) {
+    throw new Error("local and private network addresses can't be fetched")
+  }
+  if (!host.includes(".")) throw new Error("single-label hostnames can't be fetched")
+}
+
+const MAX_REDIRECTS = 5
+// Larger pages are cut here before parsing; the text the agent gets is far shorter anyway
+const MAX_BODY_BYTES = 2 * 1024 * 1024
+
+// Reads at most MAX_BODY_BYTES of the body and cancels the rest of the download
+async function readCapped(res: Response): Promise<string> {
+  if (!res.body) return ""
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let text = ""
+  let received = 0
+  while (received < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read()
+    if (done) return text + decoder.decode()
+    const chunk = value.subarray(0, MAX_BODY_BYTES - received)
+    received += chunk.length
+    text += decoder.decode(chunk, { stream: true })
+  }
+  await reader.cancel().catch(() => {})
+  return text + decoder.decode()
+}
+
+// Downloads a page without opening a tab and returns its readable text, cut to maxChars
+export async function fetchPageText(url: string, maxChars: number): Promise<PageText> {
+  const signal = AbortSignal.timeout(REQUEST_TIMEOUT)
+  let current = url
+  let res: Response
+  // Redirects are followed by hand so a public page can't send the request into the local network
+  for (let hop = 0; ; hop++) {
+    assertPublicUrl(current)
+    res = await fetch(current, { credentials: "omit", redirect: "manual", signal })
+    // The browser hides the target of some redirects; without it the hop can't be checked
+    if (res.type === "opaqueredirect") throw new Error("the page redirects to an address that can't be checked")
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get("location") : null
+    if (!location) break
+    if (hop >= MAX_REDIRECTS) throw new Error("too many redirects")
+    current = new URL(location, current).href
+  }
+  if (!res.ok) throw new Error("the page could not be loaded")
+  const type = res.headers.get("content-type") || ""
+  const body = await readCapped(res)
+  let page: { title?: string; text: string }
+  if (/html|xml/i.test(type) || (!type && /<html/i.test(body))) page = htmlToText(body)
+  else if (/^text\/|json/i.test(type)) page = { text: body.trim() }
+  else throw new Error(`unsupported content type: ${type}`)
+  return {
+    url: current,
+    title: page.title,
+    text: page.text.slice(0, maxChars),
+    truncated: page.text.length > maxChars,
+    length: page.text.length
+  }
+}
@@ -3,6 +3,8 @@ import { useRouter } from './options/router';
 import LLMProviderPage from './options/pages/LLMProviderPage';
 import ToolbarListPage from './options/pages/ToolbarListPage';
 import ToolbarDetailPage from './options/pages/ToolbarDetailPage';
+import UsagePage from './options/pages/UsagePage';
+import HistoryPage from './options/pages/HistoryPage';
 import icon48 from '../assets/icon48.png';
 
 // Register routes
@@ -13,6 +15,8 @@ import { router } from './options/router';
 router.addRoute('/', ToolbarListPage);
 router.addRoute('/provider', LLMProviderPage);
 router.addRoute('/toolbars', ToolbarListPage);
+router.addRoute('/history', HistoryPage);
+router.addRoute('/usage', UsagePage);
 
 // Handle dynamic routes for toolbar detail
 router.addRoute('/toolbar/:id', (props: { params: Record<string, string> }) => (
@@ -98,6 +102,38 @@ function OptionsPage() {
           >
             🤖 LLM Provider
           </button>
+          <button
+            onClick={() => navigate('/history')}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              background: currentPath === '/history' ? '#dbeafe' : 'transparent',
+              color: currentPath === '/history' ? '#1d4ed8' : '#64748b',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            🕘 History
+          </button>
+          <button
+            onClick={() => navigate('/usage')}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              background: currentPath === '/usage' ? '#dbeafe' : 'transparent',
+              color: currentPath === '/usage' ? '#1d4ed8' : '#64748b',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500',
+              transition: 'all 0.2s ease'
+            }}
+          >
+            📊 Usage
+          </button>
         </div>
       </nav>
 
@@ -0,0 +1,37 @@
+import { useId, type CSSProperties } from 'react';
+import type { ModelOption } from '../../utils/modelCatalog';
+
+interface ModelInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  options: ModelOption[];
+  placeholder?: string;
+  style?: CSSProperties;
+}
+
+// Free text with the known models as suggestions, so custom or brand-new model IDs can be typed
+export default function ModelInput({ value, onChange, onBlur, options, placeholder, style }: ModelInputProps) {
+  const listId = useId();
+  return (
+    <>
+      <input
+        type="text"
+        aria-label="Model"
+        list={listId}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={onBlur}
+        placeholder={placeholder}
+        style={style}
+      />
+      <datalist id={listId}>
+        {options.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label !== option.value ? option.label : undefined}
+          </option>
+        ))}
+      </datalist>
+    </>
+  );
+}
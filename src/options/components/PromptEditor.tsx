@@ -0,0 +1,172 @@
+import { useRef, useState } from 'react';
+
+export interface PromptEditorVariable {
+  name: string;
+  description: string;
+}
+
+interface PromptEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  variables: PromptEditorVariable[];
+  placeholder?: string;
+  rows?: number;
+  // Template syntax error to show under the editor
+  error?: string | null;
+}
+
+// An unclosed "{{partial" (or "{{#if partial") right before the caret opens the suggestion list
+const OPEN_VARIABLE_PATTERN = /\{\{\s*(?:#(?:if|unless|each)\s+)?([^{}\s|#/]*)$/;
+
+export default function PromptEditor({ value, onChange, onBlur, variables, placeholder, rows = 3, error }: PromptEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [query, setQuery] = useState<{ text: string; start: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query
+    ? variables.filter(v => v.name.toLowerCase().startsWith(query.text.toLowerCase()))
+    : [];
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(OPEN_VARIABLE_PATTERN);
+    if (match) {
+      setQuery({ text: match[1], start: caret - match[0].length });
+      setActiveIndex(0);
+    } else {
+      setQuery(null);
+    }
+  };
+
+  const insertVariable = (name: string) => {
+    const el = textareaRef.current;
+    if (!el) return;
+    const caret = el.selectionStart;
+    const start = query ? query.start : caret;
+    // Keep a block keyword the user already typed, e.g. "{{#if "
+    const prefix = query ? value.slice(start, caret - query.text.length).replace(/^\{\{\s*/, '') : '';
+    // Swallow closing braces the user may already have typed
+    const rest = value.slice(caret).replace(/^\s*\}\}/, '');
+    const token = `{{${prefix}${name}}}`;
+    const next = value.slice(0, start) + token + rest;
+    onChange(next);
+    setQuery(null);
+    const nextCaret = start + token.length;
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!query || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertVariable(suggestions[Math.min(activeIndex, suggestions.length - 1)].name);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={() => {
+          setQuery(null);
+          onBlur?.();
+        }}
+        placeholder={placeholder}
+        rows={rows}
+        style={{
+          width: '100%',
+          maxWidth: '100%',
+          boxSizing: 'border-box',
+          padding: '10px 14px',
+          border: `1px solid ${error ? '#ef4444' : '#d1d5db'}`,
+          borderRadius: '6px',
+          fontSize: '14px',
+          resize: 'vertical'
+        }}
+      />
+      {error && (
+        <div style={{ marginTop: '6px', fontSize: '13px', color: '#dc2626' }}>Template error: {error}</div>
+      )}
+      {query && suggestions.length > 0 && (
+        <div
+          style={{
+            position: 'absolute',
+            left: 0,
+            top: '100%',
+            zIndex: 10,
+            minWidth: '280px',
+            maxHeight: '220px',
+            overflowY: 'auto',
+            marginTop: '4px',
+            backgroundColor: 'white',
+            border: '1px solid #d1d5db',
+            borderRadius: '6px',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)'
+          }}
+        >
+          {suggestions.map((v, i) => (
+            <div
+              key={v.name}
+              // Keep focus in the textarea so the caret position survives the click
+              onMouseDown={(e) => {
+                e.preventDefault();
+                insertVariable(v.name);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+              style={{
+                padding: '8px 12px',
+                cursor: 'pointer',
+                backgroundColor: i === activeIndex ? '#eff6ff' : 'transparent'
+              }}
+            >
+              <div style={{ fontSize: '13px', fontFamily: 'monospace', color: '#1f2937' }}>{`{{${v.name}}}`}</div>
+              <div style={{ fontSize: '12px', color: '#6b7280' }}>{v.description}</div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '8px' }}>
+        {variables.map(v => (
+          <button
+            key={v.name}
+            type="button"
+            title={v.description}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => insertVariable(v.name)}
+            style={{
+              padding: '2px 8px',
+              backgroundColor: '#f3f4f6',
+              color: '#374151',
+              border: '1px solid #e5e7eb',
+              borderRadius: '12px',
+              cursor: 'pointer',
+              fontSize: '12px',
+              fontFamily: 'monospace'
+            }}
+          >
+            {v.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
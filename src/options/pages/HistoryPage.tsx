@@ -0,0 +1,320 @@
+import { useState, useEffect, type CSSProperties } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { storageManager } from '../../utils/storage';
+import { apiRequest } from '../../utils/messaging';
+import { historyToJson, historyToMarkdown, downloadFile, describeEntryDetails } from '../../utils/historyExport';
+import type { APIRequest, APIResponse, LLMProvider, LLMResponse, ToolbarConfig } from '../../types';
+
+const getHost = (url?: string) => {
+  if (!url) return '';
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+};
+
+const inputStyle: CSSProperties = { padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' };
+const smallButtonStyle: CSSProperties = { padding: '4px 10px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: '#fff', color: '#374151', cursor: 'pointer', fontSize: '12px' };
+const labelStyle: CSSProperties = { margin: '16px 0 6px 0', fontSize: '13px', fontWeight: 600, color: '#374151' };
+const blockStyle: CSSProperties = { padding: '10px 12px', backgroundColor: '#f9fafb', border: '1px solid #e5e7eb', borderRadius: '6px', fontSize: '13px', whiteSpace: 'pre-wrap', wordBreak: 'break-word', maxHeight: '240px', overflowY: 'auto' };
+
+export default function HistoryPage() {
+  const [history, setHistory] = useState<LLMResponse[]>([]);
+  const [toolbars, setToolbars] = useState<ToolbarConfig[]>([]);
+  const [providers, setProviders] = useState<LLMProvider[]>([]);
+  const [query, setQuery] = useState('');
+  const [site, setSite] = useState('');
+  const [button, setButton] = useState('');
+  const [provider, setProvider] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [rerun, setRerun] = useState<{ id: string; status: 'running' | 'done' | 'error'; text: string } | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [entries, config] = await Promise.all([storageManager.getHistory(), storageManager.getConfig()]);
+      setHistory(entries);
+      setToolbars(config.toolbarButtons || []);
+      setProviders(config.llmProviders || []);
+    } catch (error) {
+      console.error('Error loading history:', error);
+    }
+  };
+
+  const showMessage = (text: string, type: 'success' | 'error') => {
+    setMessage({ text, type });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const buttonKey = (entry: LLMResponse) => entry.buttonId ? `${entry.toolbarId || ''}/${entry.buttonId}` : '';
+
+  const buttonLabel = (entry: LLMResponse) => {
+    if (!entry.buttonId) return undefined;
+    const toolbar = toolbars.find(t => t.id === entry.toolbarId);
+    const found = toolbar?.buttons.find(b => b.id === entry.buttonId);
+    return found ? `${found.title} · ${toolbar!.name}` : 'Deleted button';
+  };
+
+  const lowerQuery = query.trim().toLowerCase();
+  const filtered = history.filter(entry => {
+    if (site && getHost(entry.url) !== site) return false;
+    if (button && buttonKey(entry) !== button) return false;
+    if (provider && entry.provider !== provider) return false;
+    // Dates are compared in local time, inclusive on both ends
+    if (fromDate && entry.timestamp < new Date(`${fromDate}T00:00:00`).getTime()) return false;
+    if (toDate && entry.timestamp > new Date(`${toDate}T23:59:59.999`).getTime()) return false;
+    if (lowerQuery) {
+      const haystack = [entry.prompt, entry.content, entry.selectedText, entry.url].filter(Boolean).join('\n').toLowerCase();
+      if (!haystack.includes(lowerQuery)) return false;
+    }
+    return true;
+  });
+
+  const sites = Array.from(new Set(history.map(e => getHost(e.url)).filter(Boolean))).sort();
+  const buttons = Array.from(new Map(history.filter(e => e.buttonId).map(e => [buttonKey(e), buttonLabel(e)!])));
+  const providerNames = Array.from(new Set(history.map(e => e.provider))).sort();
+  const selected = history.find(e => e.id === selectedId) || null;
+
+  const copyResult = async (entry: LLMResponse) => {
+    try {
+      await navigator.clipboard.writeText(entry.content);
+      showMessage('Result copied', 'success');
+    } catch {
+      showMessage('Could not copy to the clipboard', 'error');
+    }
+  };
+
+  const deleteEntry = async (entry: LLMResponse) => {
+    if (!confirm('Delete this history entry?')) return;
+    await storageManager.deleteHistoryEntries([entry.id]);
+    setHistory(prev => prev.filter(e => e.id !== entry.id));
+    if (selectedId === entry.id) setSelectedId(null);
+    showMessage('History entry deleted', 'success');
+  };
+
+  // Sends the recorded prompt again as a plain completion: the original page is not available here
+  const rerunEntry = async (entry: LLMResponse) => {
+    const target = providers.find(p => p.id === entry.providerId && p.enabled)
+      || providers.find(p => p.name === entry.provider && p.enabled)
+      || providers.find(p => p.isDefault && p.enabled)
+      || providers.find(p => p.enabled);
+    if (!target) {
+      setRerun({ id: entry.id, status: 'error', text: 'No LLM provider configured or enabled' });
+      return;
+    }
+    setRerun({ id: entry.id, status: 'running', text: '' });
+    const request: APIRequest = {
+      provider: target,
+      prompt: entry.prompt,
+      promptResolved: true,
+      selectedText: entry.selectedText || '',
+      toolbarId: entry.toolbarId,
+      buttonId: entry.buttonId,
+      dropdownVars: entry.dropdowns
+        ? Object.fromEntries(Object.entries(entry.dropdowns).map(([name, label]) => [name, { label }]))
+        : undefined,
+      executionMode: 'completion',
+    };
+    const response: APIResponse = await apiRequest(request);
+    setRerun({
+      id: entry.id,
+      status: response?.success ? 'done' : 'error',
+      text: response?.success ? response.data || '' : response?.error || 'Re-run failed',
+    });
+    if (response?.success) loadData();
+  };
+
+  const exportFiltered = (format: 'md' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      downloadFile(`agent-bar-history-${stamp}.json`, historyToJson(filtered), 'application/json');
+    } else {
+      downloadFile(`agent-bar-history-${stamp}.md`, historyToMarkdown(filtered, { button: buttonLabel }), 'text/markdown');
+    }
+  };
+
+  const hasFilters = !!(query || site || button || provider || fromDate || toDate);
+
+  return (
+    <div style={{ padding: '20px', backgroundColor: '#fff', color: '#333' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
+        <h1 style={{ margin: 0, color: '#111827' }}>History</h1>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button onClick={() => exportFiltered('md')} disabled={filtered.length === 0} style={{ ...smallButtonStyle, padding: '8px 16px', fontSize: '14px' }}>
+            Export Markdown
+          </button>
+          <button onClick={() => exportFiltered('json')} disabled={filtered.length === 0} style={{ ...smallButtonStyle, padding: '8px 16px', fontSize: '14px' }}>
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div style={{
+          padding: '12px 16px',
+          borderRadius: '6px',
+          marginBottom: '20px',
+          backgroundColor: message.type === 'success' ? '#f0fdf4' : '#fef2f2',
+          color: message.type === 'success' ? '#166534' : '#dc2626',
+          border: `1px solid ${message.type === 'success' ? '#bbf7d0' : '#fecaca'}`
+        }}>
+          {message.text}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '16px' }}>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search prompts, results and pages"
+          style={{ ...inputStyle, flex: '1 1 240px' }}
+        />
+        <select aria-label="Site" value={site} onChange={(e) => setSite(e.target.value)} style={inputStyle}>
+          <option value="">All sites</option>
+          {sites.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select aria-label="Button" value={button} onChange={(e) => setButton(e.target.value)} style={inputStyle}>
+          <option value="">All buttons</option>
+          {buttons.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+        </select>
+        <select aria-label="Provider" value={provider} onChange={(e) => setProvider(e.target.value)} style={inputStyle}>
+          <option value="">All providers</option>
+          {providerNames.map(p => <option key={p} value={p}>{p}</option>)}
+        </select>
+        <input type="date" aria-label="From" value={fromDate} onChange={(e) => setFromDate(e.target.value)} style={inputStyle} />
+        <input type="date" aria-label="To" value={toDate} onChange={(e) => setToDate(e.target.value)} style={inputStyle} />
+        {hasFilters && (
+          <button
+            onClick={() => { setQuery(''); setSite(''); setButton(''); setProvider(''); setFromDate(''); setToDate(''); }}
+            style={smallButtonStyle}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div style={{ fontSize: '13px', color: '#6b7280', marginBottom: '8px' }}>
+        {filtered.length} of {history.length} entries
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: selected ? 'minmax(0, 2fr) minmax(0, 3fr)' : '1fr', gap: '16px', alignItems: 'start' }}>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {filtered.length === 0 ? (
+            <div style={{ textAlign: 'center', padding: '40px 20px', color: '#6b7280', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
+              {history.length === 0 ? 'No history yet. Results of toolbar buttons show up here.' : 'No entries match these filters.'}
+            </div>
+          ) : filtered.map(entry => {
+            const isSelected = entry.id === selectedId;
+            return (
+              <div
+                key={entry.id}
+                onClick={() => setSelectedId(isSelected ? null : entry.id)}
+                style={{
+                  padding: '12px 16px',
+                  border: `1px solid ${isSelected ? '#3b82f6' : '#e5e7eb'}`,
+                  borderRadius: '8px',
+                  backgroundColor: isSelected ? '#eff6ff' : '#f9fafb',
+                  cursor: 'pointer'
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px', fontSize: '12px', color: '#6b7280' }}>
+                  <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{getHost(entry.url)}</span>
+                </div>
+                <div style={{ marginTop: '4px', fontWeight: 600, color: '#111827' }}>
+                  {buttonLabel(entry) || 'Request without a button'}
+                </div>
+                <div style={{ marginTop: '2px', fontSize: '13px', color: '#374151', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {entry.content}
+                </div>
+                <div style={{ marginTop: '2px', fontSize: '12px', color: '#6b7280' }}>{entry.provider} · {entry.model}</div>
+              </div>
+            );
+          })}
+        </div>
+
+        {selected && (
+          <div style={{ padding: '20px', border: '1px solid #e5e7eb', borderRadius: '8px', position: 'sticky', top: '20px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+              <h3 style={{ margin: 0, color: '#111827' }}>{buttonLabel(selected) || 'Request without a button'}</h3>
+              <div style={{ display: 'flex', gap: '6px' }}>
+                <button onClick={() => rerunEntry(selected)} disabled={rerun?.id === selected.id && rerun.status === 'running'} style={smallButtonStyle}>
+                  {rerun?.id === selected.id && rerun.status === 'running' ? 'Running...' : 'Re-run'}
+                </button>
+                <button onClick={() => copyResult(selected)} style={smallButtonStyle}>Copy</button>
+                <button onClick={() => deleteEntry(selected)} style={{ ...smallButtonStyle, color: '#ef4444' }} title="Delete entry">🗑️</button>
+              </div>
+            </div>
+            <div style={{ marginTop: '6px', fontSize: '12px', color: '#6b7280' }}>
+              {new Date(selected.timestamp).toLocaleString()} · {selected.provider} ({selected.model})
+            </div>
+            <div style={{ marginTop: '4px', fontSize: '12px', color: '#6b7280' }}>
+              {describeEntryDetails(selected).join(' · ')}
+            </div>
+            {selected.url && (
+              <>
+                <div style={labelStyle}>Source page</div>
+                {selected.pageTitle && <div style={{ fontSize: '13px', color: '#111827' }}>{selected.pageTitle}</div>}
+                <a href={selected.url} target="_blank" rel="noreferrer" style={{ fontSize: '13px', color: '#2563eb', wordBreak: 'break-all' }}>{selected.url}</a>
+              </>
+            )}
+            {selected.dropdowns && (
+              <>
+                <div style={labelStyle}>Dropdowns</div>
+                <div style={{ fontSize: '13px', color: '#374151' }}>
+                  {Object.entries(selected.dropdowns).map(([name, label]) => `${name}: ${label}`).join(' · ')}
+                </div>
+              </>
+            )}
+            {selected.selectedText && (
+              <>
+                <div style={labelStyle}>Selected text</div>
+                <div style={blockStyle}>{selected.selectedText}</div>
+              </>
+            )}
+            <div style={labelStyle}>Prompt</div>
+            <div style={blockStyle}>{selected.prompt}</div>
+            <div style={labelStyle}>Result</div>
+            <div style={{ ...blockStyle, whiteSpace: 'normal', maxHeight: 'none' }}>
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{selected.content}</ReactMarkdown>
+            </div>
+            {selected.steps && selected.steps.length > 0 && (
+              <>
+                <div style={labelStyle}>Agent steps ({selected.steps.length})</div>
+                <ol style={{ margin: 0, paddingLeft: '20px', fontSize: '13px' }}>
+                  {selected.steps.map((step, i) => (
+                    <li key={i} style={{ marginBottom: '6px' }}>
+                      <span style={{ fontFamily: 'monospace', color: step.error ? '#dc2626' : '#111827' }}>{step.name}</span>
+                      {step.error && <span style={{ color: '#dc2626' }}> — {step.error}</span>}
+                      <details>
+                        <summary style={{ cursor: 'pointer', color: '#6b7280', fontSize: '12px' }}>Input and output</summary>
+                        <pre style={{ ...blockStyle, fontSize: '12px' }}>{JSON.stringify({ input: step.input, output: step.output }, null, 2)}</pre>
+                      </details>
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+            {rerun?.id === selected.id && rerun.status !== 'running' && (
+              <>
+                <div style={labelStyle}>{rerun.status === 'done' ? 'Re-run result' : 'Re-run failed'}</div>
+                <div style={{ ...blockStyle, whiteSpace: 'normal', maxHeight: 'none', color: rerun.status === 'error' ? '#dc2626' : undefined }}>
+                  {rerun.status === 'done' ? <ReactMarkdown remarkPlugins={[remarkGfm]}>{rerun.text}</ReactMarkdown> : rerun.text}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, type CSSProperties } from 'react';
 import { storageManager } from '../../utils/storage';
+import { llmClient } from '../../utils/llmClient';
+import { testProvider as requestProviderTest } from '../../utils/messaging';
+import { LOCAL_DEFAULT_BASE_URL } from '../../utils/localModels';
+import { fetchProviderModels, getModelOptions } from '../../utils/modelCatalog';
+import { ConfigValidationError } from '../../utils/configMigration';
+import ModelInput from '../components/ModelInput';
 
-import { LLMProvider } from '../../types';
-
-const providerModels = {
-  openai: [
-    { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' },
-    { value: 'gpt-4', label: 'GPT-4' },
-    { value: 'gpt-4-turbo', label: 'GPT-4 Turbo' },
-    { value: 'gpt-4o', label: 'GPT-4o' },
-    { value: 'gpt-4o-mini', label: 'GPT-4o Mini' },
-  ],
-  claude: [
-    { value: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku' },
-    { value: 'claude-3-sonnet-20240229', label: 'Claude 3 Sonnet' },
-    { value: 'claude-3-opus-20240229', label: 'Claude 3 Opus' },
-    { value: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet' },
-  ],
-  gemini: [
-    { value: 'gemini-pro', label: 'Gemini Pro' },
-    { value: 'gemini-pro-vision', label: 'Gemini Pro Vision' },
-    { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro' },
-    { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
-  ],
-  deepseek: [
-    { value: 'deepseek-chat', label: 'DeepSeek Chat' },
-    { value: 'deepseek-reasoner', label: 'DeepSeek Reasoner' },
-  ],
-  qwen: [
-    { value: 'qwen-turbo', label: 'Qwen Turbo' },
-    { value: 'qwen-plus', label: 'Qwen Plus' },
-    { value: 'qwen-max', label: 'Qwen Max' },
-  ],
-  glm: [
-    { value: 'glm-4-flash', label: 'GLM-4 Flash' },
-    { value: 'glm-4', label: 'GLM-4' },
-    { value: 'glm-4-0520', label: 'GLM-4 0520' },
-    { value: 'glm-4-air', label: 'GLM-4 Air' },
-    { value: 'glm-4-airx', label: 'GLM-4 AirX' },
-  ],
-};
+import { LLMProvider, ProviderModelList, WebSearchSettings } from '../../types';
 
 const providerDefaults = {
   openai: {
@@ -66,23 +34,64 @@ const providerDefaults = {
     baseUrl: 'https://open.bigmodel.cn/api/paas/v4',
     model: 'glm-4-flash',
   },
+  local: {
+    baseUrl: LOCAL_DEFAULT_BASE_URL,
+    model: '',
+  },
+};
+
+type ProviderType = LLMProvider['type'];
+
+const providerTypeLabels: Record<ProviderType, string> = {
+  openai: 'OpenAI',
+  claude: 'Claude (Anthropic)',
+  gemini: 'Gemini (Google)',
+  deepseek: 'DeepSeek',
+  qwen: 'Qwen (Alibaba)',
+  glm: 'GLM (Zhipu AI)',
+  local: 'Local (Ollama / LM Studio / llama.cpp)',
+};
+
+const createProvider = (type: ProviderType, isDefault: boolean): LLMProvider => ({
+  id: `provider-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: `${type.charAt(0).toUpperCase() + type.slice(1)} Provider`,
+  type,
+  apiKey: '',
+  baseUrl: providerDefaults[type].baseUrl,
+  model: providerDefaults[type].model,
+  temperature: 0.7,
+  maxTokens: 1000,
+  enabled: true,
+  isDefault,
+});
+
+// Custom headers are edited as "Name: value" lines
+const formatHeaders = (headers?: Record<string, string>) =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+const parseHeaders = (text: string): Record<string, string> | undefined => {
+  const entries = text.split('\n')
+    .map(line => line.match(/^\s*([^:\s][^:]*?)\s*:\s*(.*?)\s*$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => [m[1], m[2]] as const);
+  return entries.length ? Object.fromEntries(entries) : undefined;
 };
 
+const inputStyle: CSSProperties = { width: '100%', maxWidth: '100%', boxSizing: 'border-box', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px' };
+const smallButtonStyle: CSSProperties = { padding: '4px 10px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: '#fff', color: '#374151', cursor: 'pointer', fontSize: '12px' };
+
 export default function LLMProviderPage() {
   const [providers, setProviders] = useState<LLMProvider[]>([]);
+  const [fallbackIds, setFallbackIds] = useState<string[]>([]);
+  const [webSearch, setWebSearch] = useState<WebSearchSettings>({ backend: 'serper' });
+  const [serperApiKey, setSerperApiKey] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [modelLists, setModelLists] = useState<Record<string, ProviderModelList>>({});
+  const [modelRefresh, setModelRefresh] = useState<Record<string, { status: 'loading' | 'error'; error?: string }>>({});
+  const [testResults, setTestResults] = useState<Record<string, { status: 'testing' | 'ok' | 'error'; text: string }>>({});
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
-
-  const [providerForm, setProviderForm] = useState({
-    name: '',
-    type: 'openai' as LLMProvider['type'],
-    apiKey: '',
-    baseUrl: providerDefaults.openai.baseUrl,
-    model: providerDefaults.openai.model,
-    temperature: 0.7,
-    maxTokens: 1000,
-    enabled: true,
-    isDefault: false,
-  });
+  // Set while typed changes are only in the form and not yet saved
+  const unsavedEdits = useRef(false);
 
   useEffect(() => {
     loadData();
@@ -91,24 +100,14 @@ export default function LLMProviderPage() {
   const loadData = async () => {
     try {
       const config = await storageManager.getConfig();
-
+      setFallbackIds(config?.providerFallbackIds || []);
+      setWebSearch(config.settings.webSearch || { backend: 'serper' });
+      setSerperApiKey(config.settings.serperApiKey || '');
+      setModelLists(await storageManager.getModelLists());
       if (config?.llmProviders) {
         setProviders(config.llmProviders);
-
-        if (config.llmProviders.length > 0) {
-          const provider = config.llmProviders[0];
-          setProviderForm({
-            name: provider.name,
-            type: provider.type,
-            apiKey: provider.apiKey,
-            baseUrl: provider.baseUrl || providerDefaults[provider.type as keyof typeof providerDefaults].baseUrl,
-            model: provider.model,
-            temperature: provider.temperature ?? 0.7,
-            maxTokens: provider.maxTokens ?? 1000,
-            enabled: provider.enabled,
-            isDefault: provider.isDefault ?? false,
-          });
-        }
+        const initial = config.llmProviders.find(p => p.isDefault) || config.llmProviders[0];
+        setSelectedId(initial ? initial.id : null);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -118,10 +117,9 @@ export default function LLMProviderPage() {
   const saveData = async (data: any) => {
     try {
       await storageManager.setConfig(data);
-      showMessage('Configuration saved successfully', 'success');
     } catch (error) {
       console.error('Error saving data:', error);
-      showMessage('Error saving configuration', 'error');
+      showMessage(error instanceof ConfigValidationError ? `Not saved: ${error.issues[0]}` : 'Error saving configuration', 'error');
     }
   };
 
@@ -130,59 +128,160 @@ export default function LLMProviderPage() {
     setTimeout(() => setMessage(null), 3000);
   };
 
-  const autoSaveProvider = (updates: Partial<typeof providerForm>) => {
-    const existingProvider = providers.length > 0 ? providers[0] : null;
-
-    const updatedProvider = {
-      id: existingProvider?.id || `provider-${Date.now()}`,
-      name: updates.type ? `${updates.type.charAt(0).toUpperCase() + updates.type.slice(1)} Provider` : (existingProvider?.name || 'OpenAI Provider'),
-      type: updates.type || existingProvider?.type || 'openai',
-      apiKey: updates.apiKey ?? existingProvider?.apiKey ?? '',
-      baseUrl: updates.baseUrl || existingProvider?.baseUrl || providerDefaults[updates.type || existingProvider?.type || 'openai'].baseUrl,
-      model: updates.model || existingProvider?.model || providerDefaults[updates.type || existingProvider?.type || 'openai'].model,
-      temperature: updates.temperature ?? existingProvider?.temperature ?? 0.7,
-      maxTokens: updates.maxTokens ?? existingProvider?.maxTokens ?? 1000,
-      enabled: true,
-      isDefault: true,
-      ...updates,
-    };
-
-    const updatedProviders = [updatedProvider];
+  const saveProviders = (updatedProviders: LLMProvider[], updatedFallbackIds = fallbackIds) => {
+    unsavedEdits.current = false;
     setProviders(updatedProviders);
-    setProviderForm({
-      name: updatedProvider.name,
-      type: updatedProvider.type as 'openai',
-      apiKey: updatedProvider.apiKey,
-      baseUrl: updatedProvider.baseUrl,
-      model: updatedProvider.model,
-      temperature: updatedProvider.temperature,
-      maxTokens: updatedProvider.maxTokens,
-      enabled: updatedProvider.enabled,
-      isDefault: updatedProvider.isDefault,
-    });
-    saveData({ llmProviders: updatedProviders });
-
-    if (existingProvider) {
-      showMessage('LLM Provider updated', 'success');
-    } else {
-      showMessage('LLM Provider configured', 'success');
-    }
+    setFallbackIds(updatedFallbackIds);
+    saveData({ llmProviders: updatedProviders, providerFallbackIds: updatedFallbackIds });
   };
 
-  const handleProviderTypeChange = (type: 'openai' | 'claude' | 'gemini' | 'deepseek' | 'qwen' | 'glm') => {
+  const selectedProvider = providers.find(p => p.id === selectedId) || null;
+
+  const updateProvider = (id: string, updates: Partial<LLMProvider>) => {
+    saveProviders(providers.map(p => (p.id === id ? { ...p, ...updates } : p)));
+  };
+
+  // Text fields only update the form while typing and are saved once they lose focus
+  const editProvider = (id: string, updates: Partial<LLMProvider>) => {
+    unsavedEdits.current = true;
+    setProviders(prev => prev.map(p => (p.id === id ? { ...p, ...updates } : p)));
+  };
+  const saveEdits = () => {
+    if (unsavedEdits.current) saveProviders(providers);
+  };
+
+  const handleProviderTypeChange = (id: string, type: ProviderType) => {
     const defaults = providerDefaults[type];
-    const updates = {
-      type,
-      baseUrl: defaults.baseUrl,
-      model: defaults.model,
-    };
-    autoSaveProvider(updates as Partial<typeof providerForm>);
+    updateProvider(id, { type, baseUrl: defaults.baseUrl, model: defaults.model });
+  };
+
+  const addProvider = () => {
+    const provider = createProvider('openai', providers.length === 0);
+    saveProviders([...providers, provider]);
+    setSelectedId(provider.id);
+    showMessage('LLM Provider added', 'success');
+  };
+
+  const duplicateProvider = (id: string) => {
+    const source = providers.find(p => p.id === id);
+    if (!source) return;
+    const copy = { ...source, id: createProvider(source.type, false).id, name: `${source.name} (copy)`, isDefault: false };
+    const index = providers.findIndex(p => p.id === id);
+    saveProviders([...providers.slice(0, index + 1), copy, ...providers.slice(index + 1)]);
+    setSelectedId(copy.id);
+    showMessage('LLM Provider duplicated', 'success');
+  };
+
+  const deleteProvider = (id: string) => {
+    if (!confirm('Are you sure you want to delete this provider?')) return;
+    const deleted = providers.find(p => p.id === id);
+    let remaining = providers.filter(p => p.id !== id);
+    // Keep exactly one default while any provider is left
+    if (deleted?.isDefault && remaining.length > 0) {
+      remaining = remaining.map((p, i) => ({ ...p, isDefault: i === 0 }));
+    }
+    saveProviders(remaining, fallbackIds.filter(f => f !== id));
+    storageManager.removeModelList(id);
+    if (selectedId === id) setSelectedId(remaining[0]?.id || null);
+    showMessage('LLM Provider deleted', 'success');
   };
 
+  const setDefaultProvider = (id: string) => {
+    // The default provider is always tried first, so it cannot also be a fallback
+    saveProviders(providers.map(p => ({ ...p, isDefault: p.id === id, ...(p.id === id && { enabled: true }) })), fallbackIds.filter(f => f !== id));
+    showMessage('Default provider updated', 'success');
+  };
+
+  const testProvider = async (provider: LLMProvider) => {
+    const validation = llmClient.validateProvider(provider);
+    if (!validation.valid) {
+      setTestResults(prev => ({ ...prev, [provider.id]: { status: 'error', text: validation.error || 'Invalid provider' } }));
+      return;
+    }
+    setTestResults(prev => ({ ...prev, [provider.id]: { status: 'testing', text: 'Testing...' } }));
+    const response = await requestProviderTest(provider);
+    setTestResults(prev => ({
+      ...prev,
+      [provider.id]: response.success
+        ? { status: 'ok', text: 'Connection successful' }
+        : { status: 'error', text: response.error || 'Connection failed' }
+    }));
+  };
+
+  const refreshModels = async (provider: LLMProvider) => {
+    setModelRefresh(prev => ({ ...prev, [provider.id]: { status: 'loading' } }));
+    try {
+      const models = await fetchProviderModels(provider);
+      await storageManager.setModelList(provider.id, models);
+      setModelLists(prev => ({ ...prev, [provider.id]: { models, fetchedAt: Date.now() } }));
+      setModelRefresh(({ [provider.id]: _done, ...rest }) => rest);
+      // Pick the first model when none is set yet, e.g. a new local server
+      if (!provider.model && models.length > 0) updateProvider(provider.id, { model: models[0] });
+    } catch (error) {
+      const text = error instanceof Error ? error.message : 'Could not load the model list';
+      setModelRefresh(prev => ({ ...prev, [provider.id]: { status: 'error', error: text } }));
+    }
+  };
+
+  const selectedModelList = selectedProvider ? modelLists[selectedProvider.id] : undefined;
+  const selectedModelRefresh = selectedProvider ? modelRefresh[selectedProvider.id] : undefined;
+
+  const saveSearchSettings = async (settings: { webSearch?: WebSearchSettings; serperApiKey?: string }) => {
+    try {
+      await storageManager.setSettings(settings);
+    } catch (error) {
+      console.error('Error saving search settings:', error);
+      showMessage(error instanceof ConfigValidationError ? `Not saved: ${error.issues[0]}` : 'Error saving search settings', 'error');
+    }
+  };
+
+  const updateWebSearch = (updates: Partial<WebSearchSettings>) => {
+    const next = { ...webSearch, ...updates };
+    setWebSearch(next);
+    saveSearchSettings({ webSearch: next });
+  };
+
+  // Fallbacks are kept in order; unchecked providers are simply left out of the list
+  const toggleFallback = (id: string, enabled: boolean) => {
+    const next = enabled ? [...fallbackIds.filter(f => f !== id), id] : fallbackIds.filter(f => f !== id);
+    setFallbackIds(next);
+    saveData({ providerFallbackIds: next });
+  };
+
+  const moveFallback = (id: string, offset: number) => {
+    const index = fallbackIds.indexOf(id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= fallbackIds.length) return;
+    const next = [...fallbackIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    setFallbackIds(next);
+    saveData({ providerFallbackIds: next });
+  };
+
+  const fallbackCandidates = [
+    ...fallbackIds.map(id => providers.find(p => p.id === id)).filter((p): p is LLMProvider => !!p && !p.isDefault),
+    ...providers.filter(p => !p.isDefault && !fallbackIds.includes(p.id)),
+  ];
+
   return (
     <div style={{ padding: '20px', backgroundColor: '#fff', color: '#333' }}>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
         <h1 style={{ margin: 0, color: '#111827' }}>LLM Provider Settings</h1>
+        <button
+          onClick={addProvider}
+          style={{
+            padding: '10px 20px',
+            backgroundColor: '#3b82f6',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            fontSize: '14px',
+            fontWeight: '500'
+          }}
+        >
+          + Add Provider
+        </button>
       </div>
 
       {message && (
@@ -199,83 +298,317 @@ export default function LLMProviderPage() {
       )}
 
       <div style={{ padding: '20px', backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px' }}>
-        <div style={{ marginBottom: '30px', padding: '20px', backgroundColor: '#f9fafb', borderRadius: '6px' }}>
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
-            <div style={{ minWidth: 0 }}>
-              <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Type</label>
-              <select
-                aria-label="Provider Type"
-                value={providerForm.type}
-                onChange={(e) => handleProviderTypeChange(e.target.value as any)}
-                style={{ width: '100%', maxWidth: '100%', boxSizing: 'border-box', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px' }}
-              >
-                <option value="openai">OpenAI</option>
-                <option value="claude">Claude (Anthropic)</option>
-                <option value="gemini">Gemini (Google)</option>
-                <option value="deepseek">DeepSeek</option>
-                <option value="qwen">Qwen (Alibaba)</option>
-                <option value="glm">GLM (Zhipu AI)</option>
-              </select>
+        {providers.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '40px 20px', color: '#6b7280' }}>
+            No providers configured yet. Add one to start using Agent Bar.
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '24px' }}>
+            {providers.map(p => {
+              const test = testResults[p.id];
+              const selected = p.id === selectedId;
+              return (
+                <div
+                  key={p.id}
+                  onClick={() => setSelectedId(p.id)}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '12px',
+                    padding: '12px 16px',
+                    border: `1px solid ${selected ? '#3b82f6' : '#e5e7eb'}`,
+                    borderRadius: '8px',
+                    backgroundColor: selected ? '#eff6ff' : '#f9fafb',
+                    cursor: 'pointer'
+                  }}
+                >
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div style={{ fontWeight: 600, color: p.enabled ? '#111827' : '#9ca3af' }}>
+                      {p.name}
+                      {p.isDefault && <span style={{ marginLeft: '8px', padding: '2px 6px', fontSize: '11px', borderRadius: '4px', backgroundColor: '#dbeafe', color: '#1d4ed8' }}>Default</span>}
+                      {!p.enabled && <span style={{ marginLeft: '8px', padding: '2px 6px', fontSize: '11px', borderRadius: '4px', backgroundColor: '#f3f4f6', color: '#6b7280' }}>Disabled</span>}
+                    </div>
+                    <div style={{ fontSize: '12px', color: '#6b7280' }}>{providerTypeLabels[p.type]} · {p.model}</div>
+                    {test && (
+                      <div style={{ fontSize: '12px', marginTop: '4px', color: test.status === 'ok' ? '#166534' : test.status === 'error' ? '#dc2626' : '#6b7280' }}>
+                        {test.text}
+                      </div>
+                    )}
+                  </div>
+                  <div style={{ display: 'flex', gap: '6px' }} onClick={(e) => e.stopPropagation()}>
+                    <button onClick={() => testProvider(p)} disabled={test?.status === 'testing'} style={smallButtonStyle}>Test</button>
+                    {!p.isDefault && <button onClick={() => setDefaultProvider(p.id)} style={smallButtonStyle}>Set default</button>}
+                    <button onClick={() => duplicateProvider(p.id)} style={smallButtonStyle} title="Duplicate provider">Duplicate</button>
+                    <button onClick={() => deleteProvider(p.id)} style={{ ...smallButtonStyle, color: '#ef4444' }} title="Delete provider">🗑️</button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {selectedProvider && (
+          <div style={{ marginBottom: '30px', padding: '20px', backgroundColor: '#f9fafb', borderRadius: '6px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', gap: '16px', marginBottom: '16px', alignItems: 'end' }}>
+              <div style={{ minWidth: 0 }}>
+                <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Name</label>
+                <input
+                  type="text"
+                  value={selectedProvider.name}
+                  onChange={(e) => editProvider(selectedProvider.id, { name: e.target.value })}
+                  onBlur={saveEdits}
+                  placeholder="e.g. Translation (cheap)"
+                  style={inputStyle}
+                />
+              </div>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', paddingBottom: '8px' }}>
+                <input
+                  type="checkbox"
+                  checked={selectedProvider.enabled}
+                  disabled={selectedProvider.isDefault}
+                  onChange={(e) => updateProvider(selectedProvider.id, { enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
             </div>
-            <div style={{ minWidth: 0 }}>
-              <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Model</label>
-              <select
-                aria-label="Model"
-                value={providerForm.model}
-                onChange={(e) => {
-                  autoSaveProvider({ model: e.target.value });
-                }}
-                style={{ width: '100%', maxWidth: '100%', boxSizing: 'border-box', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px' }}
-              >
-                {providerModels[providerForm.type].map(model => (
-                  <option key={model.value} value={model.value}>
-                    {model.label}
-                  </option>
-                ))}
-              </select>
+
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
+              <div style={{ minWidth: 0 }}>
+                <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Type</label>
+                <select
+                  aria-label="Provider Type"
+                  value={selectedProvider.type}
+                  onChange={(e) => handleProviderTypeChange(selectedProvider.id, e.target.value as ProviderType)}
+                  style={inputStyle}
+                >
+                  {(Object.keys(providerTypeLabels) as ProviderType[]).map(type => (
+                    <option key={type} value={type}>{providerTypeLabels[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ minWidth: 0 }}>
+                <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Model</label>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <ModelInput
+                    value={selectedProvider.model}
+                    onChange={(model) => editProvider(selectedProvider.id, { model })}
+                    onBlur={saveEdits}
+                    options={getModelOptions(selectedProvider, selectedModelList?.models)}
+                    placeholder={selectedProvider.type === 'local' ? 'e.g. llama3.1:8b' : 'Pick from the list or type a model ID'}
+                    style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+                  />
+                  <button
+                    onClick={() => refreshModels(selectedProvider)}
+                    disabled={selectedModelRefresh?.status === 'loading'}
+                    title="Load the models available to this provider's API key"
+                    style={{ ...smallButtonStyle, whiteSpace: 'nowrap' }}
+                  >
+                    {selectedModelRefresh?.status === 'loading' ? 'Refreshing...' : 'Refresh models'}
+                  </button>
+                </div>
+                {selectedModelRefresh?.status === 'error' ? (
+                  <div style={{ marginTop: '4px', fontSize: '12px', color: '#dc2626' }}>{selectedModelRefresh.error}</div>
+                ) : selectedModelList ? (
+                  <div style={{ marginTop: '4px', fontSize: '12px', color: '#6b7280' }}>
+                    {selectedModelList.models.length
+                      ? `${selectedModelList.models.length} models, refreshed ${new Date(selectedModelList.fetchedAt).toLocaleString()}`
+                      : 'The provider returned no models'}
+                  </div>
+                ) : null}
+              </div>
             </div>
-          </div>
 
-          <div style={{ marginBottom: '16px' }}>
-            <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>API Key</label>
-            <input
-              type="password"
-              value={providerForm.apiKey}
-              onChange={(e) => {
-                autoSaveProvider({ apiKey: e.target.value });
-              }}
-              placeholder="sk-..."
-              style={{ width: '100%', maxWidth: '100%', boxSizing: 'border-box', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px' }}
-            />
-          </div>
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>{selectedProvider.type === 'local' ? 'API Key (optional)' : 'API Key'}</label>
+              <input
+                type="password"
+                value={selectedProvider.apiKey}
+                onChange={(e) => editProvider(selectedProvider.id, { apiKey: e.target.value })}
+                onBlur={saveEdits}
+                placeholder="sk-..."
+                style={inputStyle}
+              />
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Base URL (optional)</label>
+              <input
+                type="text"
+                value={selectedProvider.baseUrl || ''}
+                onChange={(e) => editProvider(selectedProvider.id, { baseUrl: e.target.value })}
+                onBlur={saveEdits}
+                placeholder={providerDefaults[selectedProvider.type].baseUrl}
+                style={inputStyle}
+              />
+              {selectedProvider.type === 'local' && (
+                <div style={{ marginTop: '4px', fontSize: '12px', color: '#6b7280' }}>
+                  Ollama listens on http://localhost:11434, LM Studio on http://localhost:1234/v1 and llama.cpp's server on http://localhost:8080/v1. Page content never leaves this machine.
+                </div>
+              )}
+            </div>
+
+            <div style={{ marginBottom: '16px' }}>
+              <label className="form-label">Temperature</label>
+              <input
+                type="number"
+                value={selectedProvider.temperature ?? 0.7}
+                onChange={(e) => editProvider(selectedProvider.id, { temperature: e.target.value ? parseFloat(e.target.value) : undefined })}
+                onBlur={saveEdits}
+                min="0"
+                max="2"
+                step="0.1"
+                style={inputStyle}
+              />
+            </div>
 
-          <div style={{ marginBottom: '16px' }}>
-            <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Base URL (optional)</label>
-            <input
-              type="text"
-              value={providerForm.baseUrl}
-              onChange={(e) => {
-                autoSaveProvider({ baseUrl: e.target.value });
-              }}
-              placeholder="https://api.openai.com/v1"
-              style={{ width: '100%', maxWidth: '100%', boxSizing: 'border-box', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px' }}
-            />
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
+              <div style={{ minWidth: 0 }}>
+                <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Max tokens (optional)</label>
+                <input
+                  type="number"
+                  value={selectedProvider.maxTokens ?? ''}
+                  onChange={(e) => editProvider(selectedProvider.id, { maxTokens: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                  onBlur={saveEdits}
+                  min="1"
+                  placeholder="Provider default"
+                  style={inputStyle}
+                />
+              </div>
+              <div style={{ minWidth: 0 }}>
+                <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Timeout in seconds (optional)</label>
+                <input
+                  type="number"
+                  value={selectedProvider.timeoutMs ? selectedProvider.timeoutMs / 1000 : ''}
+                  onChange={(e) => editProvider(selectedProvider.id, { timeoutMs: e.target.value ? Math.round(parseFloat(e.target.value) * 1000) : undefined })}
+                  onBlur={saveEdits}
+                  min="1"
+                  placeholder="No timeout"
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+
+            {selectedProvider.type !== 'claude' && selectedProvider.type !== 'gemini' && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '16px' }}>
+                <div style={{ minWidth: 0 }}>
+                  <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Organization ID (optional)</label>
+                  <input
+                    type="text"
+                    value={selectedProvider.organization || ''}
+                    onChange={(e) => editProvider(selectedProvider.id, { organization: e.target.value || undefined })}
+                    onBlur={saveEdits}
+                    placeholder="org-..."
+                    style={inputStyle}
+                  />
+                </div>
+                <div style={{ minWidth: 0 }}>
+                  <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Project ID (optional)</label>
+                  <input
+                    type="text"
+                    value={selectedProvider.project || ''}
+                    onChange={(e) => editProvider(selectedProvider.id, { project: e.target.value || undefined })}
+                    onBlur={saveEdits}
+                    placeholder="proj_..."
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Custom headers (optional)</label>
+              <textarea
+                key={selectedProvider.id}
+                defaultValue={formatHeaders(selectedProvider.headers)}
+                onBlur={(e) => updateProvider(selectedProvider.id, { headers: parseHeaders(e.target.value) })}
+                placeholder={'One per line, e.g.\napi-key: your-gateway-key'}
+                rows={3}
+                style={{ ...inputStyle, fontFamily: 'monospace', resize: 'vertical' }}
+              />
+              <div style={{ marginTop: '4px', fontSize: '12px', color: '#6b7280' }}>
+                Sent with every request. Query parameters in the base URL (e.g. ?api-version=...) are kept for OpenAI-compatible providers.
+              </div>
+            </div>
           </div>
+        )}
 
-          <div style={{ marginBottom: '16px' }}>
-            <label className="form-label">Temperature</label>
-            <input
-              type="number"
-              value={providerForm.temperature}
-              onChange={(e) => {
-                autoSaveProvider({ temperature: parseFloat(e.target.value) });
-              }}
-              min="0"
-              max="2"
-              step="0.1"
-              style={{ width: '100%', maxWidth: '100%', boxSizing: 'border-box', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px' }}
-            />
+        <div style={{ padding: '20px', backgroundColor: '#f9fafb', borderRadius: '6px' }}>
+          <h3 style={{ margin: '0 0 6px 0', color: '#111827' }}>Fallback Providers</h3>
+          <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#6b7280' }}>
+            When the default provider keeps failing with rate limits (429) or server errors (5xx), requests are retried and then sent to these providers in order.
+          </p>
+          {fallbackCandidates.length === 0 ? (
+            <div style={{ fontSize: '13px', color: '#6b7280' }}>Add another provider to use it as a fallback.</div>
+          ) : (
+            fallbackCandidates.map(p => {
+              const position = fallbackIds.indexOf(p.id);
+              return (
+                <div key={p.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 0' }}>
+                  <input
+                    type="checkbox"
+                    checked={position !== -1}
+                    disabled={!p.enabled}
+                    onChange={(e) => toggleFallback(p.id, e.target.checked)}
+                  />
+                  <span style={{ flex: 1, color: p.enabled ? '#111827' : '#9ca3af' }}>
+                    {position !== -1 ? `${position + 1}. ` : ''}{p.name} <span style={{ color: '#6b7280', fontSize: '12px' }}>({p.model}){p.enabled ? '' : ' · disabled'}</span>
+                  </span>
+                  {position !== -1 && (
+                    <>
+                      <button onClick={() => moveFallback(p.id, -1)} disabled={position === 0} title="Move up" style={{ padding: '2px 8px', border: '1px solid #d1d5db', borderRadius: '4px', background: '#fff', cursor: 'pointer' }}>↑</button>
+                      <button onClick={() => moveFallback(p.id, 1)} disabled={position === fallbackIds.length - 1} title="Move down" style={{ padding: '2px 8px', border: '1px solid #d1d5db', borderRadius: '4px', background: '#fff', cursor: 'pointer' }}>↓</button>
+                    </>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div style={{ marginTop: '20px', padding: '20px', backgroundColor: '#f9fafb', borderRadius: '6px' }}>
+          <h3 style={{ margin: '0 0 6px 0', color: '#111827' }}>Web Search</h3>
+          <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#6b7280' }}>
+            Used by the agent's <code>web_search</code> tool to find pages without opening tabs; <code>fetch_page_text</code> then reads a result.
+          </p>
+          <div style={{ marginBottom: '12px' }}>
+            <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Search backend</label>
+            <select
+              value={webSearch.backend}
+              onChange={(e) => updateWebSearch({ backend: e.target.value as WebSearchSettings['backend'] })}
+              style={inputStyle}
+            >
+              <option value="serper">Serper (Google results)</option>
+              <option value="json">Custom JSON endpoint</option>
+            </select>
           </div>
+          {webSearch.backend === 'serper' ? (
+            <div>
+              <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Serper API Key</label>
+              <input
+                type="password"
+                value={serperApiKey}
+                onChange={(e) => setSerperApiKey(e.target.value)}
+                onBlur={() => saveSearchSettings({ serperApiKey: serperApiKey.trim() || undefined })}
+                placeholder="Key from serper.dev"
+                style={inputStyle}
+              />
+            </div>
+          ) : (
+            <div>
+              <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Endpoint URL</label>
+              <input
+                type="text"
+                value={webSearch.jsonEndpoint || ''}
+                onChange={(e) => setWebSearch({ ...webSearch, jsonEndpoint: e.target.value })}
+                onBlur={() => updateWebSearch({ jsonEndpoint: webSearch.jsonEndpoint?.trim() || undefined })}
+                placeholder="https://searx.example.org/search?q={query}&format=json"
+                style={inputStyle}
+              />
+              <div style={{ marginTop: '4px', fontSize: '12px', color: '#6b7280' }}>
+                GET request; {'{query}'} and {'{count}'} are replaced. Results are read from a results, items or organic list with title, url and snippet (or description/content) fields.
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,5 +1,15 @@
 import { useState, useEffect } from 'react';
 import { router } from '../router';
+import type { ToolPermissionGrant, ButtonExecutionMode, ProviderModelList } from '../../types';
+import { toolRiskLevels } from '../../lib/agent/permissions';
+import { supportsVision } from '../../lib/agent/images';
+import { PROMPT_VARIABLES } from '../../utils/promptVariables';
+import { validateTemplate } from '../../utils/promptResolver';
+import { getModelOptions } from '../../utils/modelCatalog';
+import { storageManager } from '../../utils/storage';
+import { ConfigValidationError } from '../../utils/configMigration';
+import PromptEditor from '../components/PromptEditor';
+import ModelInput from '../components/ModelInput';
 
 interface WebsitePattern {
   pattern: string;
@@ -18,6 +28,11 @@ interface ToolbarButton {
     enabled: boolean;
     triggerCondition?: 'text-selection' | 'input-focus' | 'global-website';
     dropdowns?: Dropdown[];
+    executionMode?: ButtonExecutionMode;
+    allowedTools?: string[];
+    llmProviderId?: string;
+    model?: string;
+    screenshotSelection?: boolean;
   }>;
   enabled: boolean;
 }
@@ -40,6 +55,8 @@ interface Dropdown {
 export default function ToolbarDetailPage({ toolbarId }: { toolbarId: string }) {
   const [toolbars, setToolbars] = useState<ToolbarButton[]>([]);
   const [providers, setProviders] = useState<any[]>([]);
+  const [modelLists, setModelLists] = useState<Record<string, ProviderModelList>>({});
+  const [toolPermissions, setToolPermissions] = useState<ToolPermissionGrant[]>([]);
   const [toolbarForm, setToolbarForm] = useState<ToolbarButton>({
     id: toolbarId,
     name: '',
@@ -64,37 +81,15 @@ export default function ToolbarDetailPage({ toolbarId }: { toolbarId: string })
 
   const loadData = async () => {
     try {
-      const result = await chrome.storage.local.get(['agent-bar-config']);
-      const config = result['agent-bar-config'];
-
-      if (config) {
-        setProviders(config.llmProviders || []);
-        const toolbarButtons = config.toolbarButtons || [];
-        const convertedToolbars = toolbarButtons.map((toolbar: any) => {
-          let websitePatterns = toolbar.websitePatterns;
-
-          if (toolbar.urlRule && !websitePatterns) {
-            websitePatterns = [{ pattern: toolbar.urlRule, enabled: true }];
-          } else if (websitePatterns && Array.isArray(websitePatterns)) {
-            if (websitePatterns.length > 0 && typeof websitePatterns[0] === 'string') {
-              websitePatterns = websitePatterns.map((pattern: string) => ({ pattern, enabled: true }));
-            }
-          } else {
-            websitePatterns = [{ pattern: '*', enabled: true }];
-          }
-
-          return {
-            ...toolbar,
-            websitePatterns
-          };
-        });
-
-        setToolbars(convertedToolbars);
-
-        const toolbar = convertedToolbars.find((t: ToolbarButton) => t.id === toolbarId);
-        if (toolbar) {
-          setToolbarForm(toolbar);
-        }
+      const [config, lists] = await Promise.all([storageManager.getConfig(), storageManager.getModelLists()]);
+      setModelLists(lists);
+      setProviders(config.llmProviders);
+      setToolPermissions(config.toolPermissions || []);
+      setToolbars(config.toolbarButtons);
+
+      const toolbar = config.toolbarButtons.find(t => t.id === toolbarId);
+      if (toolbar) {
+        setToolbarForm(toolbar);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -103,25 +98,36 @@ export default function ToolbarDetailPage({ toolbarId }: { toolbarId: string })
     }
   };
 
-  const saveData = async (data: any, showMessage: boolean = true) => {
+  const saveData = async (data: any, showMessage: boolean = true): Promise<boolean> => {
     try {
-      await chrome.storage.local.set({ 'agent-bar-config': data });
+      await storageManager.setConfig(data);
       if (showMessage) {
         setMessage('Toolbar saved successfully');
         setTimeout(() => setMessage(null), 2000);
       }
+      return true;
     } catch (error) {
       console.error('Error saving data:', error);
-      if (showMessage) {
-        setMessage('Error saving toolbar');
-        setTimeout(() => setMessage(null), 2000);
+      // Validation errors are always shown, otherwise an auto-save would look successful
+      if (showMessage || error instanceof ConfigValidationError) {
+        setMessage(error instanceof ConfigValidationError ? `Not saved: ${error.issues[0]}` : 'Error saving toolbar');
+        setTimeout(() => setMessage(null), 2500);
       }
+      return false;
     }
   };
 
   const autoSaveToolbar = () => {
     if (!toolbarForm) return;
 
+    // Broken templates are rejected here instead of failing when the button is clicked
+    const invalidButton = toolbarForm.buttons.find(b => validateTemplate(b.prompt));
+    if (invalidButton) {
+      setMessage(`Not saved: fix the prompt of "${invalidButton.title}"`);
+      setTimeout(() => setMessage(null), 2500);
+      return;
+    }
+
     const existingIndex = toolbars.findIndex(t => t.id === toolbarId);
     let updatedToolbars: ToolbarButton[];
 
@@ -135,9 +141,11 @@ export default function ToolbarDetailPage({ toolbarId }: { toolbarId: string })
     }
 
     setToolbars(updatedToolbars);
-    saveData({ llmProviders: providers, toolbarButtons: updatedToolbars }, false);
-    setMessage('Toolbar saved');
-    setTimeout(() => setMessage(null), 1500);
+    saveData({ toolbarButtons: updatedToolbars }, false).then(saved => {
+      if (!saved) return;
+      setMessage('Toolbar saved');
+      setTimeout(() => setMessage(null), 1500);
+    });
   };
 
   const addButton = () => {
@@ -448,6 +456,69 @@ export default function ToolbarDetailPage({ toolbarId }: { toolbarId: string })
     autoSaveToolbar();
   };
 
+  const revokeToolPermission = (grant: ToolPermissionGrant) => {
+    const updated = toolPermissions.filter(g => g !== grant);
+    setToolPermissions(updated);
+    saveData({ toolPermissions: updated }, false);
+  };
+
+  const updateButtonExecutionMode = (index: number, value: ButtonExecutionMode) => {
+    if (!toolbarForm) return;
+    const newButtons = [...toolbarForm.buttons];
+    newButtons[index].executionMode = value;
+    if (value === 'agent-tools' && !newButtons[index].allowedTools) {
+      newButtons[index].allowedTools = [];
+    }
+    setToolbarForm({ ...toolbarForm, buttons: newButtons });
+    autoSaveToolbar();
+  };
+
+  const updateButtonProvider = (index: number, providerId: string) => {
+    if (!toolbarForm) return;
+    const newButtons = [...toolbarForm.buttons];
+    if ((newButtons[index].llmProviderId || '') !== providerId) {
+      // Model IDs differ between providers
+      newButtons[index].model = undefined;
+    }
+    newButtons[index].llmProviderId = providerId || undefined;
+    setToolbarForm({ ...toolbarForm, buttons: newButtons });
+    autoSaveToolbar();
+  };
+
+  const updateButtonModel = (index: number, model: string) => {
+    if (!toolbarForm) return;
+    const newButtons = [...toolbarForm.buttons];
+    newButtons[index].model = model || undefined;
+    setToolbarForm({ ...toolbarForm, buttons: newButtons });
+  };
+
+  // The provider a button runs on: its own when set and present, otherwise the default
+  const getButtonProvider = (providerId?: string) =>
+    (providerId && providers.find(p => p.id === providerId)) || providers.find(p => p.isDefault) || providers[0];
+
+  // Same suggestions as the provider page, including lists refreshed there
+  const getButtonModelOptions = (providerId?: string) => {
+    const provider = getButtonProvider(providerId);
+    return provider ? getModelOptions(provider, modelLists[provider.id]?.models) : [];
+  };
+
+  const updateButtonScreenshotSelection = (index: number, enabled: boolean) => {
+    if (!toolbarForm) return;
+    const newButtons = [...toolbarForm.buttons];
+    newButtons[index].screenshotSelection = enabled || undefined;
+    setToolbarForm({ ...toolbarForm, buttons: newButtons });
+    autoSaveToolbar();
+  };
+
+  const toggleButtonAllowedTool = (index: number, tool: string, enabled: boolean) => {
+    if (!toolbarForm) return;
+    const newButtons = [...toolbarForm.buttons];
+    const current = newButtons[index].allowedTools || [];
+    newButtons[index].allowedTools = enabled ? [...current.filter(t => t !== tool), tool] : current.filter(t => t !== tool);
+    setToolbarForm({ ...toolbarForm, buttons: newButtons });
+    autoSaveToolbar();
+  };
+
   if (isLoading) {
     return (
       <div style={{ padding: '20px', textAlign: 'center' }}>
@@ -641,8 +712,35 @@ export default function ToolbarDetailPage({ toolbarId }: { toolbarId: string })
               resize: 'vertical'
             }}
           />
+          <div style={{ fontSize: '12px', color: '#6b7280', marginTop: '6px' }}>
+            Inserted wherever a prompt uses {'{{context}}'}; prompts without it receive the context as a system message.
+          </div>
         </div>
 
+        {/* Agent Permissions */}
+        {toolPermissions.some(g => g.scope === 'toolbar' && g.toolbarId === toolbarId) && (
+          <div style={{ marginBottom: '24px' }}>
+            <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: '#374151' }}>Always-allowed agent actions</label>
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+              {toolPermissions.filter(g => g.scope === 'toolbar' && g.toolbarId === toolbarId).map((grant) => (
+                <div
+                  key={`${grant.tool}-${grant.createdAt}`}
+                  style={{ display: 'inline-flex', alignItems: 'center', gap: '8px', padding: '6px 10px', border: '1px solid #e5e7eb', borderRadius: '16px', backgroundColor: '#fff' }}
+                >
+                  <span style={{ fontFamily: 'monospace', fontSize: '13px', color: '#374151' }}>{grant.tool}</span>
+                  <button
+                    onClick={() => revokeToolPermission(grant)}
+                    style={{ background: 'transparent', border: 'none', cursor: 'pointer', color: '#ef4444', fontSize: '13px' }}
+                    title="Revoke"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Buttons */}
         <div>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
@@ -753,23 +851,87 @@ export default function ToolbarDetailPage({ toolbarId }: { toolbarId: string })
                 </button>
               </div>
               </div>
-              <textarea
+              <PromptEditor
                 value={button.prompt}
-                onChange={(e) => updateButtonPrompt(index, e.target.value)}
+                onChange={(value) => updateButtonPrompt(index, value)}
                 onBlur={autoSaveToolbar}
-                placeholder="Enter prompt here. Use {{selectedText}} for selected text and {{context}} for context."
-                rows={3}
-                style={{
-                  width: '100%',
-                  maxWidth: '100%',
-                  boxSizing: 'border-box',
-                  padding: '10px 14px',
-                  border: '1px solid #d1d5db',
-                  borderRadius: '6px',
-                  fontSize: '14px',
-                  resize: 'vertical'
-                }}
+                variables={[
+                  ...PROMPT_VARIABLES.map(({ name, description }) => ({ name, description })),
+                  ...(button.dropdowns || []).filter(d => d.name).map(d => ({ name: d.name, description: 'Dropdown option selected on the toolbar' }))
+                ]}
+                error={validateTemplate(button.prompt)}
+                placeholder="Enter prompt here. Type {{ to insert a variable such as {{selectedText}} or {{pageTitle}}."
               />
+              <div style={{ marginTop: '12px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <span style={{ fontSize: '14px', color: '#374151' }}>Mode</span>
+                  <select
+                    value={button.executionMode || 'agent'}
+                    onChange={(e) => updateButtonExecutionMode(index, e.target.value as ButtonExecutionMode)}
+                    style={{ padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' }}
+                  >
+                    <option value="completion">Direct completion (no tools)</option>
+                    <option value="agent-tools">Agent with selected tools</option>
+                    <option value="agent">Full agent (all tools)</option>
+                  </select>
+                  <span style={{ fontSize: '14px', color: '#374151', marginLeft: '12px' }}>Provider</span>
+                  <select
+                    value={button.llmProviderId || ''}
+                    onChange={(e) => updateButtonProvider(index, e.target.value)}
+                    style={{ padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px' }}
+                  >
+                    <option value="">Default provider</option>
+                    {providers.map(p => (
+                      <option key={p.id} value={p.id}>{p.name} ({p.model}){p.enabled ? '' : ' · disabled'}</option>
+                    ))}
+                    {button.llmProviderId && !providers.some(p => p.id === button.llmProviderId) && (
+                      <option value={button.llmProviderId}>Missing provider (uses default)</option>
+                    )}
+                  </select>
+                  {providers.length > 0 && (
+                    <>
+                      <span style={{ fontSize: '14px', color: '#374151', marginLeft: '12px' }}>Model</span>
+                      <ModelInput
+                        value={button.model || ''}
+                        onChange={(model) => updateButtonModel(index, model)}
+                        onBlur={autoSaveToolbar}
+                        options={getButtonModelOptions(button.llmProviderId)}
+                        placeholder={`Provider model (${getButtonProvider(button.llmProviderId)?.model || 'default'})`}
+                        style={{ padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px', fontSize: '14px', minWidth: '200px' }}
+                      />
+                    </>
+                  )}
+                </div>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '10px', fontSize: '14px', color: '#374151' }}>
+                  <input
+                    type="checkbox"
+                    checked={!!button.screenshotSelection}
+                    onChange={(e) => updateButtonScreenshotSelection(index, e.target.checked)}
+                  />
+                  Attach a screenshot of the selection
+                  {button.screenshotSelection && (() => {
+                    const provider = getButtonProvider(button.llmProviderId);
+                    return provider && !supportsVision({ ...provider, model: button.model || provider.model })
+                      ? <span style={{ fontSize: '12px', color: '#b45309' }}>⚠️ {button.model || provider.model} can't read images</span>
+                      : null;
+                  })()}
+                </label>
+                {button.executionMode === 'agent-tools' && (
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(240px, 1fr))', gap: '6px', marginTop: '10px' }}>
+                    {Object.entries(toolRiskLevels).map(([tool, risk]) => (
+                      <label key={tool} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#374151' }}>
+                        <input
+                          type="checkbox"
+                          checked={(button.allowedTools || []).includes(tool)}
+                          onChange={(e) => toggleButtonAllowedTool(index, tool, e.target.checked)}
+                        />
+                        <span style={{ fontFamily: 'monospace' }}>{tool}</span>
+                        {risk === 'high' && <span style={{ fontSize: '11px', color: '#b45309' }} title="Asks for approval before running">⚠️</span>}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
               <div style={{ marginTop: '16px' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
                   <div style={{ fontWeight: 600, color: '#374151' }}>Dropdowns</div>
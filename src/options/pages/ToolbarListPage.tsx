@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
 import { router } from '../router';
+import { storageManager } from '../../utils/storage';
+import { ConfigValidationError, normalizeToolbars } from '../../utils/configMigration';
+import { findInvalidPrompts } from '../../utils/promptResolver';
+import type { ConfigRepairReport, ToolbarConfig } from '../../types';
 
 interface WebsitePattern {
   pattern: string;
@@ -22,6 +26,8 @@ interface ToolbarButton {
 
 export default function ToolbarListPage() {
   const [toolbars, setToolbars] = useState<ToolbarButton[]>([]);
+  const [repairReport, setRepairReport] = useState<ConfigRepairReport | null>(null);
+  const invalidPrompts = findInvalidPrompts(toolbars);
 
   useEffect(() => {
     loadData();
@@ -29,45 +35,39 @@ export default function ToolbarListPage() {
 
   const loadData = async () => {
     try {
-      const result = await chrome.storage.local.get(['agent-bar-config']);
-      const config = result['agent-bar-config'];
-
-      if (config) {
-        const toolbarButtons = config.toolbarButtons || [];
-        const convertedToolbars = toolbarButtons.map((toolbar: any) => {
-          let websitePatterns = toolbar.websitePatterns;
-
-          // Migrate from old data structure
-          if (toolbar.urlRule && !websitePatterns) {
-            websitePatterns = [{ pattern: toolbar.urlRule, enabled: true }];
-          } else if (websitePatterns && Array.isArray(websitePatterns)) {
-            if (websitePatterns.length > 0 && typeof websitePatterns[0] === 'string') {
-              websitePatterns = websitePatterns.map((pattern: string) => ({ pattern, enabled: true }));
-            }
-          } else {
-            websitePatterns = [{ pattern: '*', enabled: true }];
-          }
-
-          return {
-            ...toolbar,
-            websitePatterns
-          };
-        });
-        setToolbars(convertedToolbars);
-      }
+      const config = await storageManager.getConfig();
+      setToolbars(config.toolbarButtons);
+      setRepairReport(await storageManager.getConfigRepairReport());
     } catch (error) {
       console.error('Error loading data:', error);
     }
   };
 
-  const saveData = async (data: any) => {
+  const saveData = async (data: { toolbarButtons: ToolbarConfig[] }) => {
     try {
-      await chrome.storage.local.set({ 'agent-bar-config': data });
+      await storageManager.setConfig(data);
     } catch (error) {
       console.error('Error saving data:', error);
+      alert(error instanceof ConfigValidationError ? `Toolbars not saved:\n${error.issues.join('\n')}` : 'Error saving toolbars');
     }
   };
 
+  const dismissRepairReport = async () => {
+    await storageManager.clearConfigRepairReport();
+    setRepairReport(null);
+  };
+
+  const downloadRepairBackup = () => {
+    if (!repairReport) return;
+    const blob = new Blob([JSON.stringify(repairReport.config, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `agent-bar-config-backup-${new Date(repairReport.repairedAt).toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const createNewToolbar = async () => {
     const newToolbar: ToolbarButton = {
       id: `toolbar-${Date.now()}`,
@@ -87,7 +87,7 @@ export default function ToolbarListPage() {
 
     const updatedToolbars = [...toolbars, newToolbar];
     setToolbars(updatedToolbars);
-    await saveData({ llmProviders: [], toolbarButtons: updatedToolbars });
+    await saveData({ toolbarButtons: updatedToolbars });
 
     // Navigate to edit page
     router.navigate(`/toolbar/${newToolbar.id}`);
@@ -102,23 +102,22 @@ export default function ToolbarListPage() {
       toolbar.id === toolbarId ? { ...toolbar, enabled: !toolbar.enabled } : toolbar
     );
     setToolbars(updatedToolbars);
-    await saveData({ llmProviders: [], toolbarButtons: updatedToolbars });
+    await saveData({ toolbarButtons: updatedToolbars });
   };
 
   const deleteToolbar = async (toolbarId: string) => {
     if (confirm('Are you sure you want to delete this toolbar?')) {
       const updatedToolbars = toolbars.filter(toolbar => toolbar.id !== toolbarId);
       setToolbars(updatedToolbars);
-      await saveData({ llmProviders: [], toolbarButtons: updatedToolbars });
+      await saveData({ toolbarButtons: updatedToolbars });
     }
   };
 
   const exportToolbars = async () => {
     try {
-      const result = await chrome.storage.local.get(['agent-bar-config']);
-      const config = result['agent-bar-config'];
+      const config = await storageManager.getConfig();
 
-      if (!config || !config.toolbarButtons) {
+      if (config.toolbarButtons.length === 0) {
         alert('No toolbars to export');
         return;
       }
@@ -159,36 +158,21 @@ export default function ToolbarListPage() {
         return;
       }
 
-      const importedToolbars = importData.toolbars.map((toolbar: any) => {
-        let websitePatterns = toolbar.websitePatterns;
-
-        if (toolbar.urlRule && !websitePatterns) {
-          websitePatterns = [{ pattern: toolbar.urlRule, enabled: true }];
-        } else if (websitePatterns && Array.isArray(websitePatterns)) {
-          if (websitePatterns.length > 0 && typeof websitePatterns[0] === 'string') {
-            websitePatterns = websitePatterns.map((pattern: string) => ({ pattern, enabled: true }));
-          }
-        } else {
-          websitePatterns = [{ pattern: '*', enabled: true }];
-        }
-
-        return {
-          ...toolbar,
-          id: `toolbar-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          websitePatterns
-        };
-      });
+      const { toolbars: validToolbars, issues } = normalizeToolbars(importData.toolbars);
+      const importedToolbars = validToolbars.map(toolbar => ({
+        ...toolbar,
+        id: `toolbar-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      }));
 
-      const result = await chrome.storage.local.get(['agent-bar-config']);
-      const config = result['agent-bar-config'] || { llmProviders: [], toolbarButtons: [] };
-
-      const existingToolbars = config.toolbarButtons || [];
-      const updatedToolbars = [...existingToolbars, ...importedToolbars];
+      const config = await storageManager.getConfig();
+      const updatedToolbars = [...config.toolbarButtons, ...importedToolbars];
 
       setToolbars(updatedToolbars);
-      await saveData({ llmProviders: config.llmProviders || [], toolbarButtons: updatedToolbars });
+      await saveData({ toolbarButtons: updatedToolbars });
 
-      alert(`Successfully imported ${importedToolbars.length} toolbar(s)`);
+      alert(issues.length > 0
+        ? `Imported ${importedToolbars.length} toolbar(s). Some data was repaired or skipped:\n${issues.join('\n')}`
+        : `Successfully imported ${importedToolbars.length} toolbar(s)`);
     } catch (error) {
       console.error('Error importing toolbars:', error);
       alert('Error importing toolbars. Please check the file format.');
@@ -260,6 +244,43 @@ export default function ToolbarListPage() {
         </div>
       </div>
 
+      {repairReport && (
+        <div style={{ marginBottom: '24px', padding: '14px 16px', backgroundColor: '#fffbeb', border: '1px solid #fcd34d', borderRadius: '8px', color: '#92400e', fontSize: '14px' }}>
+          <div style={{ fontWeight: 600, marginBottom: '6px' }}>
+            Some saved settings were invalid and were repaired on {new Date(repairReport.repairedAt).toLocaleString()}
+          </div>
+          <ul style={{ margin: '0 0 10px 0', paddingLeft: '20px', maxHeight: '140px', overflowY: 'auto', fontFamily: 'monospace', fontSize: '12px' }}>
+            {repairReport.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+          </ul>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button onClick={downloadRepairBackup} style={{ padding: '6px 12px', border: '1px solid #f59e0b', borderRadius: '6px', backgroundColor: '#fff', color: '#92400e', cursor: 'pointer', fontSize: '13px' }}>
+              Download original
+            </button>
+            <button onClick={dismissRepairReport} style={{ padding: '6px 12px', border: 'none', borderRadius: '6px', backgroundColor: '#f59e0b', color: 'white', cursor: 'pointer', fontSize: '13px' }}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {invalidPrompts.length > 0 && (
+        <div style={{ marginBottom: '24px', padding: '14px 16px', backgroundColor: '#fef2f2', border: '1px solid #fca5a5', borderRadius: '8px', color: '#991b1b', fontSize: '14px' }}>
+          <div style={{ fontWeight: 600, marginBottom: '6px' }}>
+            {invalidPrompts.length === 1 ? '1 button has' : `${invalidPrompts.length} buttons have`} an invalid prompt template and {invalidPrompts.length === 1 ? 'runs' : 'run'} with plain variable substitution until fixed
+          </div>
+          <ul style={{ margin: 0, paddingLeft: '20px', maxHeight: '140px', overflowY: 'auto', fontSize: '13px' }}>
+            {invalidPrompts.map(item => (
+              <li key={`${item.toolbarId}-${item.buttonId}`}>
+                <a onClick={() => editToolbar(item.toolbarId)} style={{ color: '#991b1b', textDecoration: 'underline', cursor: 'pointer' }}>
+                  {item.toolbarName} › {item.buttonTitle || 'Untitled'}
+                </a>
+                : {item.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {toolbars.length === 0 ? (
         <div style={{ textAlign: 'center', padding: '80px 20px' }}>
           <div style={{ fontSize: '48px', marginBottom: '20px' }}>📋</div>
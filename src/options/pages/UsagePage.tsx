@@ -0,0 +1,458 @@
+import { useState, useEffect, type CSSProperties } from 'react';
+import { storageManager } from '../../utils/storage';
+import { MODEL_PRICES, getModelPrice, formatCost } from '../../utils/pricing';
+import { groupUsage, sumUsage, getMonthUsage, toDayKey, type UsageTotals } from '../../utils/usage';
+import { DEFAULT_RESPONSE_CACHE } from '../../utils/responseCache';
+import type { ModelPrice, ResponseCacheSettings, ToolbarConfig, UsageBudget, UsageEntry } from '../../types';
+
+type Range = '7' | '30' | '90' | 'month';
+type Metric = 'tokens' | 'cost';
+
+const rangeLabels: Record<Range, string> = {
+  '7': 'Last 7 days',
+  '30': 'Last 30 days',
+  '90': 'Last 90 days',
+  month: 'This month',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Day keys from the start of the range up to today, so days without usage still get a bar
+const getRangeDays = (range: Range): string[] => {
+  const today = new Date();
+  const count = range === 'month' ? today.getDate() : Number(range);
+  return Array.from({ length: count }, (_, i) => toDayKey(today.getTime() - (count - 1 - i) * DAY_MS));
+};
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const cardStyle: CSSProperties = { flex: 1, minWidth: '160px', padding: '16px', backgroundColor: '#f9fafb', border: '1px solid #e5e7eb', borderRadius: '8px' };
+const sectionStyle: CSSProperties = { marginBottom: '24px', padding: '20px', backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '8px' };
+const inputStyle: CSSProperties = { width: '100%', maxWidth: '100%', boxSizing: 'border-box', padding: '8px 12px', border: '1px solid #d1d5db', borderRadius: '6px' };
+const cellStyle: CSSProperties = { padding: '8px', borderBottom: '1px solid #f3f4f6', textAlign: 'right', whiteSpace: 'nowrap' };
+
+function BreakdownTable({ title, rows, label }: { title: string; rows: Array<{ key: string } & UsageTotals>; label: (key: string) => string }) {
+  const maxCost = Math.max(...rows.map(r => r.cost), 0);
+  const maxTokens = Math.max(...rows.map(r => r.totalTokens), 0);
+  return (
+    <div style={{ flex: 1, minWidth: '320px' }}>
+      <h3 style={{ margin: '0 0 8px 0', fontSize: '15px', color: '#111827' }}>{title}</h3>
+      {rows.length === 0 ? (
+        <div style={{ fontSize: '13px', color: '#6b7280' }}>No usage in this period.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ color: '#6b7280' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>Name</th>
+              <th style={cellStyle}>Requests</th>
+              <th style={cellStyle}>Tokens</th>
+              <th style={cellStyle}>Est. cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              // Bars follow cost when anything was priced, otherwise tokens
+              const share = maxCost > 0 ? row.cost / maxCost : maxTokens > 0 ? row.totalTokens / maxTokens : 0;
+              return (
+                <tr key={row.key}>
+                  <td style={{ ...cellStyle, textAlign: 'left', whiteSpace: 'normal' }}>
+                    <div style={{ color: '#111827' }}>{label(row.key)}</div>
+                    <div style={{ height: '4px', marginTop: '4px', width: `${Math.max(share * 100, 1)}%`, backgroundColor: '#93c5fd', borderRadius: '2px' }} />
+                  </td>
+                  <td style={cellStyle}>{row.requests}</td>
+                  <td style={cellStyle} title={`${row.promptTokens.toLocaleString()} in / ${row.completionTokens.toLocaleString()} out`}>{formatTokens(row.totalTokens)}</td>
+                  <td style={cellStyle}>{formatCost(row.cost)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [entries, setEntries] = useState<UsageEntry[]>([]);
+  const [toolbars, setToolbars] = useState<ToolbarConfig[]>([]);
+  const [budget, setBudget] = useState<UsageBudget>({});
+  const [modelPrices, setModelPrices] = useState<Record<string, ModelPrice>>({});
+  const [cacheSettings, setCacheSettings] = useState<ResponseCacheSettings>(DEFAULT_RESPONSE_CACHE);
+  const [cacheSize, setCacheSize] = useState(0);
+  const [range, setRange] = useState<Range>('30');
+  const [metric, setMetric] = useState<Metric>('tokens');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [usage, config, cache] = await Promise.all([storageManager.getUsage(), storageManager.getConfig(), storageManager.getResponseCache()]);
+      setEntries(usage);
+      setCacheSettings({ ...DEFAULT_RESPONSE_CACHE, ...config.settings?.responseCache });
+      setCacheSize(Object.keys(cache).length);
+      setToolbars(config.toolbarButtons || []);
+      setBudget(config.usageBudget || {});
+      setModelPrices(config.modelPrices || {});
+    } catch (error) {
+      console.error('Error loading usage:', error);
+    }
+  };
+
+  const showMessage = (text: string, type: 'success' | 'error') => {
+    setMessage({ text, type });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const saveBudget = async (next: UsageBudget) => {
+    setBudget(next);
+    try {
+      await storageManager.setConfig({ usageBudget: next });
+    } catch {
+      showMessage('Error saving budget', 'error');
+    }
+  };
+
+  const saveModelPrice = async (model: string, price: ModelPrice | undefined) => {
+    const { [model]: _previous, ...rest } = modelPrices;
+    const next = price ? { ...rest, [model]: price } : rest;
+    setModelPrices(next);
+    try {
+      await storageManager.setConfig({ modelPrices: next });
+    } catch {
+      showMessage('Error saving model price', 'error');
+    }
+  };
+
+  const saveCacheSettings = async (next: ResponseCacheSettings) => {
+    setCacheSettings(next);
+    try {
+      await storageManager.setSettings({ responseCache: next });
+    } catch {
+      showMessage('Error saving cache settings', 'error');
+    }
+  };
+
+  const clearResponseCache = async () => {
+    await storageManager.clearResponseCache();
+    setCacheSize(0);
+    showMessage('Response cache cleared', 'success');
+  };
+
+  const clearUsage = async () => {
+    if (!confirm('Delete all usage statistics? Budgets and prices are kept.')) return;
+    await storageManager.clearUsage();
+    setEntries([]);
+    showMessage('Usage statistics cleared', 'success');
+  };
+
+  const days = getRangeDays(range);
+  const inRange = entries.filter(e => e.day >= days[0]);
+  const totals = sumUsage(inRange);
+  const month = getMonthUsage(entries);
+  const daily = new Map(groupUsage(inRange, e => e.day).map(d => [d.key, d]));
+  const dayValue = (day: string) => {
+    const d = daily.get(day);
+    return d ? (metric === 'cost' ? d.cost : d.totalTokens) : 0;
+  };
+  const maxDayValue = Math.max(...days.map(dayValue), 0);
+
+  const toolbarName = (id: string) => toolbars.find(t => t.id === id)?.name || (id ? 'Deleted toolbar' : 'No toolbar');
+  const buttonName = (key: string) => {
+    const [toolbarId, buttonId] = key.split('\u0000');
+    const toolbar = toolbars.find(t => t.id === toolbarId);
+    const button = toolbar?.buttons.find(b => b.id === buttonId);
+    if (!buttonId) return 'Follow-ups and other requests';
+    return button ? `${button.title} · ${toolbar!.name}` : 'Deleted button';
+  };
+  const models = Array.from(new Set(entries.map(e => e.model))).sort();
+
+  const budgetBar = (used: number, limit: number | undefined, format: (n: number) => string) => {
+    if (limit === undefined) return null;
+    const share = limit > 0 ? Math.min(used / limit, 1) : 1;
+    return (
+      <div style={{ marginTop: '8px' }}>
+        <div style={{ height: '6px', backgroundColor: '#e5e7eb', borderRadius: '3px', overflow: 'hidden' }}>
+          <div style={{ height: '100%', width: `${share * 100}%`, backgroundColor: share >= 1 ? '#ef4444' : share >= 0.8 ? '#f59e0b' : '#22c55e' }} />
+        </div>
+        <div style={{ marginTop: '4px', fontSize: '12px', color: share >= 1 ? '#dc2626' : '#6b7280' }}>
+          {format(used)} of {format(limit)}{share >= 1 ? ' · requests are blocked' : ''}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ padding: '20px', backgroundColor: '#fff', color: '#333' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
+        <h1 style={{ margin: 0, color: '#111827' }}>Usage & Costs</h1>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <select value={range} onChange={(e) => setRange(e.target.value as Range)} style={{ padding: '8px', border: '1px solid #d1d5db', borderRadius: '6px' }}>
+            {(Object.keys(rangeLabels) as Range[]).map(r => <option key={r} value={r}>{rangeLabels[r]}</option>)}
+          </select>
+          <button
+            onClick={clearUsage}
+            style={{ padding: '8px 16px', border: '1px solid #fecaca', borderRadius: '6px', backgroundColor: '#fff', color: '#dc2626', cursor: 'pointer' }}
+          >
+            Clear statistics
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div style={{
+          padding: '12px 16px',
+          borderRadius: '6px',
+          marginBottom: '20px',
+          backgroundColor: message.type === 'success' ? '#f0fdf4' : '#fef2f2',
+          color: message.type === 'success' ? '#166534' : '#dc2626',
+          border: `1px solid ${message.type === 'success' ? '#bbf7d0' : '#fecaca'}`
+        }}>
+          {message.text}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', marginBottom: '24px' }}>
+        <div style={cardStyle}>
+          <div style={{ fontSize: '12px', color: '#6b7280' }}>Requests</div>
+          <div style={{ fontSize: '24px', fontWeight: 600, color: '#111827' }}>{totals.requests}</div>
+        </div>
+        <div style={cardStyle}>
+          <div style={{ fontSize: '12px', color: '#6b7280' }}>Tokens</div>
+          <div style={{ fontSize: '24px', fontWeight: 600, color: '#111827' }}>{formatTokens(totals.totalTokens)}</div>
+          <div style={{ fontSize: '12px', color: '#6b7280' }}>{formatTokens(totals.promptTokens)} in · {formatTokens(totals.completionTokens)} out</div>
+        </div>
+        <div style={cardStyle}>
+          <div style={{ fontSize: '12px', color: '#6b7280' }}>Estimated cost</div>
+          <div style={{ fontSize: '24px', fontWeight: 600, color: '#111827' }}>{formatCost(totals.cost)}</div>
+        </div>
+        <div style={cardStyle}>
+          <div style={{ fontSize: '12px', color: '#6b7280' }}>This month</div>
+          <div style={{ fontSize: '24px', fontWeight: 600, color: '#111827' }}>{formatCost(month.cost)}</div>
+          {budgetBar(month.cost, budget.monthlyCostLimit, formatCost)}
+          {budgetBar(month.totalTokens, budget.monthlyTokenLimit, n => `${formatTokens(n)} tokens`)}
+        </div>
+      </div>
+
+      <div style={sectionStyle}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+          <h3 style={{ margin: 0, fontSize: '15px', color: '#111827' }}>By day</h3>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {(['tokens', 'cost'] as Metric[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                style={{
+                  padding: '4px 10px',
+                  border: '1px solid #d1d5db',
+                  borderRadius: '6px',
+                  backgroundColor: metric === m ? '#dbeafe' : '#fff',
+                  color: metric === m ? '#1d4ed8' : '#374151',
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+              >
+                {m === 'tokens' ? 'Tokens' : 'Cost'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '160px', borderBottom: '1px solid #e5e7eb' }}>
+          {days.map(day => {
+            const value = dayValue(day);
+            return (
+              <div
+                key={day}
+                title={`${day}: ${metric === 'cost' ? formatCost(value) : `${value.toLocaleString()} tokens`}`}
+                style={{ flex: 1, height: '100%', display: 'flex', alignItems: 'flex-end' }}
+              >
+                <div style={{
+                  width: '100%',
+                  height: maxDayValue > 0 ? `${(value / maxDayValue) * 100}%` : 0,
+                  minHeight: value > 0 ? '2px' : 0,
+                  backgroundColor: '#3b82f6',
+                  borderRadius: '2px 2px 0 0'
+                }} />
+              </div>
+            );
+          })}
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '4px', fontSize: '11px', color: '#6b7280' }}>
+          <span>{days[0]}</span>
+          <span>{days[days.length - 1]}</span>
+        </div>
+      </div>
+
+      <div style={{ ...sectionStyle, display: 'flex', flexWrap: 'wrap', gap: '24px' }}>
+        <BreakdownTable
+          title="By provider"
+          rows={groupUsage(inRange, e => `${e.providerName} · ${e.model}`)}
+          label={key => key}
+        />
+        <BreakdownTable
+          title="By toolbar"
+          rows={groupUsage(inRange, e => e.toolbarId || '')}
+          label={toolbarName}
+        />
+        <BreakdownTable
+          title="By button"
+          rows={groupUsage(inRange, e => `${e.toolbarId || ''}\u0000${e.buttonId || ''}`)}
+          label={buttonName}
+        />
+      </div>
+
+      <div style={sectionStyle}>
+        <h3 style={{ margin: '0 0 6px 0', fontSize: '15px', color: '#111827' }}>Monthly budget</h3>
+        <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#6b7280' }}>
+          New requests are refused once this calendar month's usage reaches a limit. Leave a field empty for no limit.
+        </p>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+          <div style={{ minWidth: 0 }}>
+            <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Cost limit (USD)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={budget.monthlyCostLimit ?? ''}
+              onChange={(e) => saveBudget({ ...budget, monthlyCostLimit: e.target.value ? parseFloat(e.target.value) : undefined })}
+              placeholder="No limit"
+              style={inputStyle}
+            />
+          </div>
+          <div style={{ minWidth: 0 }}>
+            <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Token limit</label>
+            <input
+              type="number"
+              min="0"
+              step="1000"
+              value={budget.monthlyTokenLimit ?? ''}
+              onChange={(e) => saveBudget({ ...budget, monthlyTokenLimit: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+              placeholder="No limit"
+              style={inputStyle}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div style={sectionStyle}>
+        <h3 style={{ margin: '0 0 6px 0', fontSize: '15px', color: '#111827' }}>Response cache</h3>
+        <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#6b7280' }}>
+          Reuse the answer when the same prompt is sent to the same provider, model and temperature again, e.g. clicking "Explain" twice on the same text.
+          Only buttons in direct completion mode are cached; agent runs, screenshots and follow-up messages are never cached. Cached answers can be regenerated from the result panel.
+        </p>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '12px' }}>
+          <input
+            type="checkbox"
+            checked={cacheSettings.enabled}
+            onChange={(e) => saveCacheSettings({ ...cacheSettings, enabled: e.target.checked })}
+          />
+          Cache responses
+        </label>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', marginBottom: '12px' }}>
+          <div style={{ minWidth: 0 }}>
+            <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Keep answers for (hours)</label>
+            <input
+              type="number"
+              min="0.1"
+              step="1"
+              value={cacheSettings.ttlMinutes / 60}
+              disabled={!cacheSettings.enabled}
+              onChange={(e) => e.target.value && saveCacheSettings({ ...cacheSettings, ttlMinutes: Math.max(Math.round(parseFloat(e.target.value) * 60), 1) })}
+              style={inputStyle}
+            />
+          </div>
+          <div style={{ minWidth: 0 }}>
+            <label style={{ display: 'block', marginBottom: '6px', fontWeight: '500' }}>Maximum cached answers</label>
+            <input
+              type="number"
+              min="1"
+              step="10"
+              value={cacheSettings.maxEntries}
+              disabled={!cacheSettings.enabled}
+              onChange={(e) => e.target.value && saveCacheSettings({ ...cacheSettings, maxEntries: Math.max(parseInt(e.target.value, 10), 1) })}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '13px', color: '#6b7280' }}>
+          {cacheSize} cached {cacheSize === 1 ? 'answer' : 'answers'}
+          <button
+            onClick={clearResponseCache}
+            disabled={cacheSize === 0}
+            style={{ padding: '4px 10px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: '#fff', cursor: 'pointer', fontSize: '12px' }}
+          >
+            Clear cache
+          </button>
+        </div>
+      </div>
+
+      <div style={sectionStyle}>
+        <h3 style={{ margin: '0 0 6px 0', fontSize: '15px', color: '#111827' }}>Model prices</h3>
+        <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: '#6b7280' }}>
+          USD per million tokens, used to estimate the cost of new requests. Built-in prices cover {Object.keys(MODEL_PRICES).length} common models; override them here, e.g. for negotiated rates or models without a known price.
+        </p>
+        {models.length === 0 ? (
+          <div style={{ fontSize: '13px', color: '#6b7280' }}>Models appear here after their first request.</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <thead>
+              <tr style={{ color: '#6b7280' }}>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>Model</th>
+                <th style={cellStyle}>Input</th>
+                <th style={cellStyle}>Output</th>
+                <th style={cellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(model => {
+                const override = modelPrices[model];
+                const builtIn = getModelPrice(model);
+                const price = override || builtIn;
+                const update = (field: keyof ModelPrice, value: string) => {
+                  const base = price || { input: 0, output: 0 };
+                  saveModelPrice(model, { ...base, [field]: value ? parseFloat(value) : 0 });
+                };
+                return (
+                  <tr key={model}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>
+                      {model}
+                      <span style={{ marginLeft: '8px', fontSize: '11px', color: '#6b7280' }}>
+                        {override ? 'custom' : builtIn ? 'built-in' : 'no price'}
+                      </span>
+                    </td>
+                    {(['input', 'output'] as const).map(field => (
+                      <td key={field} style={cellStyle}>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={price ? price[field] : ''}
+                          onChange={(e) => update(field, e.target.value)}
+                          placeholder="—"
+                          style={{ ...inputStyle, width: '100px' }}
+                        />
+                      </td>
+                    ))}
+                    <td style={cellStyle}>
+                      {override && (
+                        <button
+                          onClick={() => saveModelPrice(model, undefined)}
+                          style={{ padding: '4px 10px', border: '1px solid #d1d5db', borderRadius: '6px', backgroundColor: '#fff', cursor: 'pointer', fontSize: '12px' }}
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { storageManager } from './utils/storage';
 import { urlMatcher } from './utils/urlMatcher';
-import type { AgentBarConfig } from './types';
+import type { AgentBarConfig, ToolPermissionGrant } from './types';
 import './popup.css';
 import { Icon } from '@iconify/react';
 
@@ -41,6 +41,20 @@ const Popup = () => {
     chrome.tabs.create({ url });
   };
 
+  const revokeToolPermission = async (grant: ToolPermissionGrant) => {
+    const updated = (config?.toolPermissions || []).filter(g => g !== grant);
+    await storageManager.setToolPermissions(updated);
+    setConfig(prev => prev ? { ...prev, toolPermissions: updated } : prev);
+  };
+
+  const getCurrentHost = () => {
+    try {
+      return currentUrl ? new URL(currentUrl).host : '';
+    } catch {
+      return '';
+    }
+  };
+
   const getCurrentDomain = () => {
     if (!currentUrl) return 'Unknown';
     try {
@@ -60,20 +74,8 @@ const Popup = () => {
 
   const enabledProviders = config?.llmProviders?.filter(p => p.enabled) || [];
   const defaultProvider = enabledProviders.find(p => p.isDefault) || enabledProviders[0];
-  const normalizedToolbars = (config?.toolbarButtons || []).map((tb: any) => {
-    let websitePatterns = tb.websitePatterns;
-    if (websitePatterns && Array.isArray(websitePatterns)) {
-      if (websitePatterns.length > 0 && typeof websitePatterns[0] === 'string') {
-        websitePatterns = (websitePatterns as any).map((p: string) => ({ pattern: p, enabled: true }));
-      }
-    } else if (tb.urlRule) {
-      websitePatterns = [{ pattern: tb.urlRule, enabled: true }];
-    } else {
-      websitePatterns = [{ pattern: '*', enabled: true }];
-    }
-    return { ...tb, websitePatterns };
-  });
-  const matchingToolbars = urlMatcher.getToolbarsForUrl(currentUrl, normalizedToolbars);
+  const matchingToolbars = urlMatcher.getToolbarsForUrl(currentUrl, config?.toolbarButtons || []);
+  const siteGrants = (config?.toolPermissions || []).filter(g => g.scope === 'site' && g.host === getCurrentHost());
 
   return (
     <div className="popup">
@@ -140,6 +142,30 @@ const Popup = () => {
           </div>
         )}
 
+        {siteGrants.length > 0 && (
+          <div style={{ marginTop: '16px' }}>
+            <h3 style={{ margin: 0, fontSize: '16px' }}>Always Allowed Here</h3>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginTop: '8px' }}>
+              {siteGrants.map((grant) => (
+                <span key={`${grant.tool}-${grant.createdAt}`} style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                  padding: '2px 8px',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '12px',
+                  fontSize: '12px',
+                  fontFamily: 'monospace',
+                  background: '#f9fafb'
+                }}>
+                  {grant.tool}
+                  <button onClick={() => revokeToolPermission(grant)} className="btn btn-text" title="Revoke" style={{ padding: '0 2px' }}>✕</button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Configured Toolbars list */}
         {matchingToolbars.length > 0 && (
           <div style={{ marginTop: '16px' }}>
@@ -2,12 +2,16 @@
 export interface LLMProvider {
   id: string;
   name: string;
-  type: 'openai' | 'claude' | 'gemini' | 'deepseek' | 'qwen' | 'glm';
+  type: 'openai' | 'claude' | 'gemini' | 'deepseek' | 'qwen' | 'glm' | 'local';
   apiKey: string;
   baseUrl?: string;
   model: string;
   temperature?: number;
   maxTokens?: number;
+  headers?: Record<string, string>; // extra HTTP headers sent with every request, e.g. for API gateways
+  organization?: string; // OpenAI-compatible providers only
+  project?: string; // OpenAI-compatible providers only
+  timeoutMs?: number;
   enabled: boolean;
   isDefault?: boolean;
 }
@@ -39,6 +43,9 @@ export interface LegacyToolbarButton {
   updatedAt: number;
 }
 
+// How a button runs its prompt: plain completion, agent with a subset of tools, or agent with all tools
+export type ButtonExecutionMode = 'completion' | 'agent-tools' | 'agent';
+
 // New Toolbar Button Types (based on the JSON structure)
 export interface ToolbarButtonConfig {
   enabled: boolean;
@@ -47,6 +54,11 @@ export interface ToolbarButtonConfig {
   title: string;
   dropdowns?: DropdownConfig[];
   triggerCondition?: 'text-selection' | 'input-focus' | 'global-website';
+  executionMode?: ButtonExecutionMode; // defaults to 'agent'
+  allowedTools?: string[]; // used when executionMode is 'agent-tools'
+  llmProviderId?: string; // defaults to the default provider
+  model?: string; // overrides the provider's model
+  screenshotSelection?: boolean; // attach a screenshot of the selected region (vision models only)
 }
 
 // Website Pattern interface for toolbar URL matching
@@ -110,11 +122,40 @@ export interface TemplateButton {
 // Union type for backward compatibility
 export type ToolbarButton = LegacyToolbarButton | ToolbarButtonConfig;
 
+// Tool Permission Types
+export type ToolRiskLevel = 'low' | 'high';
+
+// "Always allow" choice for a high-risk tool, scoped to a site (host) or a toolbar
+export interface ToolPermissionGrant {
+  tool: string;
+  scope: 'site' | 'toolbar';
+  host?: string;
+  toolbarId?: string;
+  createdAt: number;
+}
+
+export interface ToolApprovalRequest {
+  id: string;
+  tool: string;
+  args: any;
+  risk: ToolRiskLevel;
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  remember?: 'site' | 'toolbar';
+}
+
 // Configuration Types
 export interface AgentBarConfig {
+  configVersion?: number; // shape version of the stored config, see utils/configMigration
   llmProviders: LLMProvider[];
   urlRules?: UrlRule[]; // Optional for backward compatibility
   toolbarButtons: ToolbarConfig[]; // New structure
+  toolPermissions?: ToolPermissionGrant[];
+  providerFallbackIds?: string[]; // tried in order when the primary provider keeps failing
+  modelPrices?: Record<string, ModelPrice>; // per-model overrides of the built-in price table
+  usageBudget?: UsageBudget;
   settings: {
     theme: 'light' | 'dark';
     autoHide: boolean;
@@ -122,28 +163,110 @@ export interface AgentBarConfig {
     debounceDelay: number;
     maxHistory: number;
     serperApiKey?: string;
+    webSearch?: WebSearchSettings;
+    responseCache?: ResponseCacheSettings;
   };
 }
 
 // Storage Keys
 export const STORAGE_KEYS = {
   CONFIG: 'agent-bar-config',
+  CONFIG_BACKUP: 'agent-bar-config-backup',
   HISTORY: 'agent-bar-history',
   CACHE: 'agent-bar-cache',
+  MODELS: 'agent-bar-models',
+  USAGE: 'agent-bar-usage',
 } as const;
 
-// LLM Response Types
+// Copy of the stored config taken before a migration had to repair or drop data
+export interface ConfigRepairReport {
+  repairedAt: number;
+  issues: string[];
+  config: unknown;
+}
+
+// Backend of the agent's web_search tool: Serper (uses settings.serperApiKey) or any JSON search endpoint
+export interface WebSearchSettings {
+  backend: 'serper' | 'json';
+  jsonEndpoint?: string; // GET URL, "{query}" and "{count}" are replaced
+}
+
+// Opt-in reuse of earlier answers to identical requests
+export interface ResponseCacheSettings {
+  enabled: boolean;
+  ttlMinutes: number;
+  maxEntries: number;
+}
+
+// One answer in the response cache, stored under a hash of the request
+export interface CachedResponse {
+  text: string;
+  createdAt: number;
+  providerId: string;
+  model: string;
+}
+
+// Model IDs last fetched from a provider's listing endpoint
+export interface ProviderModelList {
+  models: string[];
+  fetchedAt: number;
+}
+
+// What started a request recorded in history
+export type HistoryTrigger = NonNullable<ToolbarButtonConfig['triggerCondition']> | 'follow-up' | 're-run';
+
+// LLM Response Types (history entries)
 export interface LLMResponse {
   id: string;
+  recordVersion?: number; // missing on entries written before history was migrated
   content: string;
-  provider: string;
+  provider: string; // provider name at the time of the request
+  providerId?: string;
   model: string;
   prompt: string;
   timestamp: number;
-  tokens?: number;
+  selectedText?: string;
+  url?: string; // page the request was sent from
+  pageTitle?: string;
+  toolbarId?: string;
+  buttonId?: string;
+  dropdowns?: Record<string, string>; // dropdown name -> selected option label
+  trigger?: HistoryTrigger;
+  executionMode?: ButtonExecutionMode;
+  durationMs?: number;
+  steps?: AgentStep[]; // long tool inputs and outputs are truncated
+  tokens?: number; // legacy total, see `usage`
+  usage?: TokenUsage;
+  cost?: number; // estimated, in USD
   error?: string;
 }
 
+// Token usage summed per day, provider, model, toolbar and button
+export interface UsageEntry {
+  day: string; // YYYY-MM-DD, local time
+  providerId: string;
+  providerName: string;
+  model: string;
+  toolbarId?: string;
+  buttonId?: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // estimated, in USD; 0 when the model has no known price
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Requests are refused once this month's usage reaches a limit
+export interface UsageBudget {
+  monthlyCostLimit?: number; // USD
+  monthlyTokenLimit?: number;
+}
+
 // Selection Types
 export interface TextSelection {
   text: string;
@@ -185,19 +308,67 @@ export interface APIRequest {
   prompt: string;
   selectedText: string;
   dropdownVars?: Record<string, { label: string; description?: string }>;
+  context?: string; // toolbar context, for {{context}} or as a system message
+  pageVariables?: Record<string, string>; // built-in page variables collected by the content script
+  toolbarId?: string;
+  buttonId?: string;
+  executionMode?: ButtonExecutionMode;
+  allowedTools?: string[];
+  sessionId?: string; // result panel conversation the request belongs to
+  followUp?: boolean; // `prompt` is a follow-up message in that conversation, not a template
+  promptResolved?: boolean; // `prompt` was resolved before, e.g. a history entry being re-run
+  trigger?: ToolbarButtonConfig['triggerCondition']; // how the toolbar was shown when the button was clicked
+  bypassCache?: boolean; // ask the provider even when a cached answer exists (regenerate)
+  images?: string[]; // image data URLs sent with the prompt, e.g. a screenshot of the selection
 }
 
 export interface APIResponse {
   success: boolean;
   data?: string;
   error?: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  cancelled?: boolean;
+  steps?: AgentStep[];
+  // Provider that produced the answer, and the primary's name when a fallback had to step in
+  answeredBy?: { id: string; name: string; model: string };
+  fallbackFrom?: string;
+  usage?: TokenUsage;
+  // Set when the answer came from the response cache instead of the provider
+  cached?: { createdAt: number };
 }
 
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Agent Step Types (one entry per tool call made by the agent)
+export interface AgentStep {
+  name: string;
+  input: any;
+  output?: any;
+  error?: string;
+}
+
+// Streaming Types (content script -> background over the `agent-bar-stream` port)
+export type StreamRequest =
+  | { type: 'API_REQUEST'; payload: APIRequest }
+  | { type: 'APPROVAL_RESPONSE'; id: string; decision: ToolApprovalDecision }
+  | { type: 'CANCEL' };
+
+// One exchange shown in the result panel thread
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Streaming Types (background -> content script over the `agent-bar-stream` port)
+export type StreamEvent =
+  | { type: 'STREAM_TEXT'; text: string } // text of the current LLM turn so far
+  | { type: 'STREAM_STEP'; step: AgentStep }
+  | { type: 'STREAM_APPROVAL'; request: ToolApprovalRequest } // a high-risk tool call waits for the user
+  | { type: 'STREAM_DONE'; response: APIResponse };
+
 // Message Types (for communication between content script and popup)
 export type MessageType =
   | 'GET_CONFIG'
@@ -209,6 +380,9 @@ export type MessageType =
   | 'API_REQUEST'
   | 'API_RESPONSE'
   | 'OPEN_OPTIONS'
+  | 'RESET_CONVERSATION'
+  | 'CAPTURE_REGION'
+  | 'TEST_PROVIDER'
   | 'PING';
 
 export interface Message {
@@ -0,0 +1,358 @@
+import * as z from 'zod';
+import type { AgentBarConfig, LegacyToolbarButton, ToolbarConfig, UrlRule, WebsitePattern } from '../types';
+
+// Bumped whenever the stored config changes shape; each bump adds a step to MIGRATIONS
+export const CONFIG_VERSION = 2;
+
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const websitePatternSchema = z.object({
+  pattern: z.string(),
+  enabled: z.boolean(),
+});
+
+const dropdownSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  options: z.array(z.object({
+    id: z.string().min(1),
+    label: z.string(),
+    description: z.string(),
+    enabled: z.boolean(),
+  }).passthrough()),
+  enabled: z.boolean(),
+  defaultOptionId: z.string().optional(),
+}).passthrough();
+
+const buttonSchema = z.object({
+  enabled: z.boolean(),
+  id: z.string().min(1),
+  prompt: z.string(),
+  title: z.string(),
+  dropdowns: z.array(dropdownSchema).optional(),
+  triggerCondition: z.enum(['text-selection', 'input-focus', 'global-website']).optional(),
+  executionMode: z.enum(['completion', 'agent-tools', 'agent']).optional(),
+  allowedTools: z.array(z.string()).optional(),
+  llmProviderId: z.string().optional(),
+  model: z.string().optional(),
+  screenshotSelection: z.boolean().optional(),
+}).passthrough();
+
+const toolbarSchema = z.object({
+  buttons: z.array(buttonSchema),
+  context: z.string(),
+  enabled: z.boolean(),
+  id: z.string().min(1),
+  name: z.string(),
+  websitePatterns: z.array(websitePatternSchema),
+}).passthrough();
+
+const providerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(['openai', 'claude', 'gemini', 'deepseek', 'qwen', 'glm', 'local']),
+  apiKey: z.string(),
+  baseUrl: z.string().optional(),
+  model: z.string(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().optional(),
+  headers: z.record(z.string()).optional(),
+  organization: z.string().optional(),
+  project: z.string().optional(),
+  timeoutMs: z.number().optional(),
+  enabled: z.boolean(),
+  isDefault: z.boolean().optional(),
+}).passthrough();
+
+const permissionSchema = z.object({
+  tool: z.string().min(1),
+  scope: z.enum(['site', 'toolbar']),
+  host: z.string().optional(),
+  toolbarId: z.string().optional(),
+  createdAt: z.number(),
+}).passthrough();
+
+const settingsSchema = z.object({
+  theme: z.enum(['light', 'dark']),
+  autoHide: z.boolean(),
+  showOnSelect: z.boolean(),
+  debounceDelay: z.number().nonnegative(),
+  maxHistory: z.number().int().positive(),
+  serperApiKey: z.string().optional(),
+  webSearch: z.object({
+    backend: z.enum(['serper', 'json']),
+    jsonEndpoint: z.string().optional(),
+  }).passthrough().optional(),
+  responseCache: z.object({
+    enabled: z.boolean(),
+    ttlMinutes: z.number().positive(),
+    maxEntries: z.number().int().positive(),
+  }).optional(),
+}).passthrough();
+
+export const configSchema = z.object({
+  configVersion: z.number().int().optional(),
+  llmProviders: z.array(providerSchema),
+  urlRules: z.array(z.object({ id: z.string(), pattern: z.string() }).passthrough()).optional(),
+  toolbarButtons: z.array(toolbarSchema),
+  toolPermissions: z.array(permissionSchema).optional(),
+  providerFallbackIds: z.array(z.string()).optional(),
+  modelPrices: z.record(z.object({ input: z.number().nonnegative(), output: z.number().nonnegative() })).optional(),
+  usageBudget: z.object({
+    monthlyCostLimit: z.number().nonnegative().optional(),
+    monthlyTokenLimit: z.number().nonnegative().optional(),
+  }).optional(),
+  settings: settingsSchema,
+}).passthrough();
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+
+// Replaces fields that fail their schema with a fallback, keeping everything else as stored
+function repairFields(shape: z.ZodRawShape, value: Record<string, any>, defaults: Record<string, any>, label: string, issues: string[]): Record<string, any> {
+  const out = { ...value };
+  for (const [key, fallback] of Object.entries(defaults)) {
+    if (!shape[key].safeParse(out[key]).success) {
+      issues.push(`${label}.${key}: ${out[key] === undefined ? 'missing' : 'invalid'}, reset to ${JSON.stringify(fallback)}`);
+      out[key] = fallback;
+    }
+  }
+  return out;
+}
+
+// Drops optional fields that hold something unusable instead of failing the whole entry
+function dropInvalidOptional(shape: z.ZodRawShape, value: Record<string, any>, keys: string[], label: string, issues: string[]): Record<string, any> {
+  const out = { ...value };
+  for (const key of keys) {
+    if (out[key] !== undefined && !shape[key].safeParse(out[key]).success) {
+      issues.push(`${label}.${key}: invalid, removed`);
+      delete out[key];
+    }
+  }
+  return out;
+}
+
+type Repair = (item: any, label: string, issues: string[]) => any;
+
+// Parses each item on its own so one broken entry doesn't take the whole list with it.
+// Repairs are only reported for entries that are kept.
+function repairList<T>(items: unknown, label: string, repair: Repair, schema: z.ZodType<T>, issues: string[]): T[] {
+  if (!Array.isArray(items)) {
+    if (items !== undefined) issues.push(`${label}: not a list, ignored`);
+    return [];
+  }
+  const kept: T[] = [];
+  items.forEach((item, index) => {
+    const itemLabel = `${label}.${index}`;
+    const itemIssues: string[] = [];
+    const result = schema.safeParse(item && typeof item === 'object' ? repair(item, itemLabel, itemIssues) : item);
+    if (result.success) {
+      kept.push(result.data);
+      issues.push(...itemIssues);
+    } else {
+      issues.push(`${itemLabel}: removed (${formatIssues(result.error)[0]})`);
+    }
+  });
+  return kept;
+}
+
+const repairDropdown: Repair = (dropdown, label, issues) => ({
+  ...repairFields(dropdownSchema.shape, dropdown, { name: '', enabled: true }, label, issues),
+  options: repairList(dropdown.options, `${label}.options`, (option, optionLabel, optionIssues) =>
+    repairFields(dropdownSchema.shape.options.element.shape, option, { label: option.id || '', description: '', enabled: true }, optionLabel, optionIssues),
+  dropdownSchema.shape.options.element, issues),
+});
+
+const repairButton: Repair = (button, label, issues) => {
+  const repaired = repairFields(buttonSchema.shape, button, { enabled: true, prompt: '', title: 'Untitled' }, label, issues);
+  if (repaired.dropdowns !== undefined) {
+    repaired.dropdowns = repairList(repaired.dropdowns, `${label}.dropdowns`, repairDropdown, dropdownSchema, issues);
+  }
+  return dropInvalidOptional(buttonSchema.shape, repaired, ['triggerCondition', 'executionMode', 'allowedTools', 'llmProviderId', 'model', 'screenshotSelection'], label, issues);
+};
+
+const repairToolbar: Repair = (toolbar, label, issues) => ({
+  ...repairFields(toolbarSchema.shape, toolbar, { context: '', enabled: true, name: 'Untitled toolbar' }, label, issues),
+  // Without patterns a toolbar shows everywhere, so broken patterns are dropped one by one rather than reset
+  websitePatterns: Array.isArray(toolbar.websitePatterns)
+    ? repairList(toolbar.websitePatterns, `${label}.websitePatterns`, (pattern, patternLabel, patternIssues) =>
+      repairFields(websitePatternSchema.shape, pattern, { enabled: true }, patternLabel, patternIssues), websitePatternSchema, issues)
+    : [{ pattern: '*', enabled: true }],
+  buttons: repairList(toolbar.buttons, `${label}.buttons`, repairButton, buttonSchema, issues),
+});
+
+const repairProvider: Repair = (provider, label, issues) => {
+  const fieldIssues: string[] = [];
+  const repaired = repairFields(providerSchema.shape, provider, { name: provider.id || 'Provider', type: 'openai', apiKey: '', model: '', enabled: false }, label, fieldIssues);
+  issues.push(...fieldIssues);
+  // A provider whose required fields had to be reset stays disabled until it is checked on the provider page
+  if (fieldIssues.length > 0 && repaired.enabled !== false) {
+    issues.push(`${label}.enabled: disabled until the provider is checked`);
+    repaired.enabled = false;
+  }
+  return dropInvalidOptional(
+    providerSchema.shape,
+    repaired,
+    ['baseUrl', 'temperature', 'maxTokens', 'headers', 'organization', 'project', 'timeoutMs', 'isDefault'],
+    label,
+    issues
+  );
+};
+
+// Legacy URL rules matched on host, path, full URL or regex; website patterns only know hosts and full URLs
+function ruleToPattern(rule: UrlRule, issues: string[]): WebsitePattern | null {
+  if (!rule.isWhitelist) {
+    issues.push(`urlRules.${rule.id}: blacklist rules are not supported by toolbars and were skipped`);
+    return null;
+  }
+  switch (rule.type) {
+    case 'host':
+    case 'full':
+      return { pattern: rule.pattern, enabled: rule.enabled };
+    case 'path':
+      issues.push(`urlRules.${rule.id}: path rule "${rule.pattern}" now matches the whole site`);
+      return { pattern: rule.pattern.split('/')[0], enabled: rule.enabled };
+    default:
+      issues.push(`urlRules.${rule.id}: regex rule "${rule.pattern}" cannot be converted and was skipped`);
+      return null;
+  }
+}
+
+const isLegacyButton = (item: any): item is LegacyToolbarButton =>
+  !!item && typeof item === 'object' && !('buttons' in item) && ('promptTemplate' in item || 'urlRuleIds' in item);
+
+// v0 -> v1: flat buttons linked to URL rules become toolbars, one per distinct set of rules
+function migrateLegacyButtons(config: any, issues: string[]): any {
+  const items: any[] = Array.isArray(config.toolbarButtons) ? config.toolbarButtons : [];
+  const legacy = items.filter(isLegacyButton);
+  if (legacy.length === 0) return config;
+
+  const rules: UrlRule[] = Array.isArray(config.urlRules) ? config.urlRules : [];
+  const groups = new Map<string, LegacyToolbarButton[]>();
+  for (const button of [...legacy].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))) {
+    const key = [...(button.urlRuleIds || [])].sort().join(',');
+    groups.set(key, [...(groups.get(key) || []), button]);
+  }
+
+  const toolbars: ToolbarConfig[] = Array.from(groups.entries()).map(([key, buttons], index) => {
+    const groupRules = rules.filter(rule => key.split(',').includes(rule.id));
+    const websitePatterns = groupRules
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+      .map(rule => ruleToPattern(rule, issues))
+      .filter((p): p is WebsitePattern => p !== null);
+    if (key && websitePatterns.length === 0) {
+      issues.push(`toolbarButtons: no usable URL rule for "${buttons[0].name}", the migrated toolbar shows on every site`);
+    }
+    return {
+      id: `toolbar-legacy-${index + 1}`,
+      name: groupRules.map(rule => rule.name).filter(Boolean).join(', ') || `Migrated toolbar ${index + 1}`,
+      context: '',
+      enabled: true,
+      websitePatterns: websitePatterns.length > 0 ? websitePatterns : [{ pattern: '*', enabled: true }],
+      buttons: buttons.map(button => ({
+        id: button.id,
+        title: button.name,
+        prompt: button.promptTemplate,
+        enabled: button.enabled !== false,
+        ...(button.llmProviderId && { llmProviderId: button.llmProviderId }),
+      })),
+    };
+  });
+
+  return { ...config, toolbarButtons: [...items.filter(item => !isLegacyButton(item)), ...toolbars] };
+}
+
+// v1 -> v2: toolbars that stored a single `urlRule` or plain pattern strings get pattern objects
+function migrateWebsitePatterns(config: any): any {
+  if (!Array.isArray(config.toolbarButtons)) return config;
+  return {
+    ...config,
+    toolbarButtons: config.toolbarButtons.map((toolbar: any) => {
+      if (!toolbar || typeof toolbar !== 'object') return toolbar;
+      const { urlRule, ...rest } = toolbar;
+      let websitePatterns = toolbar.websitePatterns;
+      if (Array.isArray(websitePatterns)) {
+        websitePatterns = websitePatterns.map((p: any) => (typeof p === 'string' ? { pattern: p, enabled: true } : p));
+      } else if (typeof urlRule === 'string' && urlRule) {
+        websitePatterns = [{ pattern: urlRule, enabled: true }];
+      } else {
+        websitePatterns = [{ pattern: '*', enabled: true }];
+      }
+      return { ...rest, websitePatterns };
+    }),
+  };
+}
+
+// MIGRATIONS[n] upgrades a version n config to version n + 1
+const MIGRATIONS: Array<(config: any, issues: string[]) => any> = [
+  migrateLegacyButtons,
+  migrateWebsitePatterns,
+];
+
+export interface ConfigNormalization {
+  config: AgentBarConfig;
+  issues: string[];
+  changed: boolean; // true when the stored data differs from the result and should be written back; issues without a change are only reported
+}
+
+// Migrates stored or imported data to the current version and repairs what fails validation.
+// Issues list everything that was changed or removed on the way.
+export function normalizeConfig(raw: any, defaults: AgentBarConfig): ConfigNormalization {
+  const issues: string[] = [];
+  const from = typeof raw?.configVersion === 'number' ? raw.configVersion : 0;
+  let config: any = raw && typeof raw === 'object' ? raw : {};
+
+  // Data from a newer release is used as it is and never written back, so downgrading and upgrading
+  // again doesn't lose what this version doesn't know about
+  if (from > CONFIG_VERSION) {
+    issues.push(`configVersion: ${from} was written by a newer version of the extension`);
+    return { config: { ...defaults, ...config } as AgentBarConfig, issues, changed: false };
+  }
+  for (let version = from; version < CONFIG_VERSION; version++) {
+    config = MIGRATIONS[version](config, issues);
+  }
+  config = { ...defaults, ...config, configVersion: CONFIG_VERSION };
+
+  const checked = configSchema.safeParse(config);
+  if (checked.success) {
+    return { config: checked.data as AgentBarConfig, issues, changed: from !== config.configVersion || issues.length > 0 };
+  }
+
+  const settings = config.settings && typeof config.settings === 'object' ? config.settings : {};
+  const repaired = dropInvalidOptional(configSchema.shape, {
+    ...config,
+    llmProviders: repairList(config.llmProviders, 'llmProviders', repairProvider, providerSchema, issues),
+    toolbarButtons: repairList(config.toolbarButtons, 'toolbarButtons', repairToolbar, toolbarSchema, issues),
+    settings: dropInvalidOptional(settingsSchema.shape, repairFields(settingsSchema.shape, settings, defaults.settings, 'settings', issues), ['serperApiKey', 'webSearch', 'responseCache'], 'settings', issues),
+    ...(config.toolPermissions !== undefined && {
+      toolPermissions: repairList(config.toolPermissions, 'toolPermissions', grant => grant, permissionSchema, issues),
+    }),
+  }, ['urlRules', 'providerFallbackIds', 'modelPrices', 'usageBudget'], 'config', issues);
+
+  const result = configSchema.safeParse(repaired);
+  if (!result.success) {
+    // Should not happen once every list and field above was repaired; the caller keeps the stored copy
+    issues.push(...formatIssues(result.error));
+    return { config: { ...defaults, configVersion: CONFIG_VERSION }, issues, changed: false };
+  }
+  return { config: result.data as AgentBarConfig, issues, changed: true };
+}
+
+// Strict check used before saving: nothing is repaired, every problem is returned
+export function validateConfig(config: AgentBarConfig): string[] {
+  const result = configSchema.safeParse(config);
+  return result.success ? [] : formatIssues(result.error);
+}
+
+// Toolbars from an exported file go through the same migrations and repairs as stored ones
+export function normalizeToolbars(toolbars: unknown[]): { toolbars: ToolbarConfig[]; issues: string[] } {
+  const issues: string[] = [];
+  const migrated = migrateWebsitePatterns({ toolbarButtons: toolbars }).toolbarButtons;
+  const kept = repairList(migrated, 'toolbars', repairToolbar, toolbarSchema, issues);
+  return { toolbars: kept as ToolbarConfig[], issues };
+}
@@ -0,0 +1,74 @@
+import type { ButtonExecutionMode, HistoryTrigger, LLMResponse } from '../types';
+import { formatCost } from './pricing';
+
+// Human-readable names for the ids stored in an entry
+export interface HistoryLabels {
+  button?: (entry: LLMResponse) => string | undefined;
+}
+
+const triggerLabels: Record<HistoryTrigger, string> = {
+  'text-selection': 'Text selection',
+  'input-focus': 'Input focus',
+  'global-website': 'Page toolbar',
+  'follow-up': 'Follow-up',
+  're-run': 'Re-run from history',
+};
+
+const modeLabels: Record<ButtonExecutionMode, string> = {
+  completion: 'Direct completion',
+  'agent-tools': 'Agent (selected tools)',
+  agent: 'Agent',
+};
+
+// Short facts about how an entry was produced, e.g. ["Text selection", "3.2s", "1,204 tokens"]
+export function describeEntryDetails(entry: LLMResponse): string[] {
+  const tokens = entry.usage?.totalTokens ?? entry.tokens;
+  return [
+    entry.trigger && triggerLabels[entry.trigger],
+    entry.executionMode && modeLabels[entry.executionMode],
+    entry.durationMs !== undefined && `${(entry.durationMs / 1000).toFixed(1)}s`,
+    tokens !== undefined && `${tokens.toLocaleString()} tokens`,
+    entry.cost !== undefined && formatCost(entry.cost),
+    entry.steps?.length && `${entry.steps.length} tool step${entry.steps.length === 1 ? '' : 's'}`,
+  ].filter((part): part is string => typeof part === 'string' && part.length > 0);
+}
+
+export function historyToJson(entries: LLMResponse[]): string {
+  return JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2);
+}
+
+// Blockquotes keep multi-line prompts and selections readable without breaking the outline
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+export function historyToMarkdown(entries: LLMResponse[], labels: HistoryLabels = {}): string {
+  const sections = entries.map(entry => {
+    const button = labels.button?.(entry);
+    const details = describeEntryDetails(entry);
+    const meta = [
+      `- **Date:** ${new Date(entry.timestamp).toLocaleString()}`,
+      `- **Provider:** ${entry.provider} (${entry.model})`,
+      button && `- **Button:** ${button}`,
+      entry.url && `- **Page:** ${entry.pageTitle ? `${entry.pageTitle} (${entry.url})` : entry.url}`,
+      entry.dropdowns && `- **Dropdowns:** ${Object.entries(entry.dropdowns).map(([name, label]) => `${name}: ${label}`).join(', ')}`,
+      details.length > 0 && `- **Run:** ${details.join(' · ')}`,
+    ].filter(Boolean).join('\n');
+    return [
+      `## ${button || entry.prompt.split('\n')[0].slice(0, 80)}`,
+      meta,
+      entry.selectedText ? `### Selected text\n\n${quote(entry.selectedText)}` : '',
+      `### Prompt\n\n${quote(entry.prompt)}`,
+      `### Result\n\n${entry.content}`,
+    ].filter(Boolean).join('\n\n');
+  });
+  return [`# Agent Bar history`, `Exported ${new Date().toLocaleString()} · ${entries.length} entries`, ...sections].join('\n\n') + '\n';
+}
+
+// Saves text as a file through a temporary download link
+export function downloadFile(filename: string, text: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,44 @@
+import type { AgentStep, LLMProvider, LLMResponse } from '../types';
+
+// Bumped whenever history entries gain fields that old entries must be upgraded for
+export const HISTORY_RECORD_VERSION = 2;
+
+// Tool outputs can hold whole pages or screenshots; history keeps enough to audit the run
+const MAX_STEP_VALUE_LENGTH = 2000;
+
+const truncateValue = (value: any): any => {
+  if (typeof value === 'string') {
+    return value.length > MAX_STEP_VALUE_LENGTH ? `${value.slice(0, MAX_STEP_VALUE_LENGTH)}… (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map(truncateValue);
+  if (value && typeof value === 'object') {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = truncateValue(v);
+    return out;
+  }
+  return value;
+};
+
+export const compactSteps = (steps: AgentStep[]): AgentStep[] =>
+  steps.map(step => ({ ...step, input: truncateValue(step.input), output: truncateValue(step.output) }));
+
+export const needsMigration = (entry: LLMResponse) => (entry.recordVersion || 1) < HISTORY_RECORD_VERSION;
+
+// Upgrades an entry written by an older version. Fields that were never recorded stay empty;
+// the provider id is recovered from the provider name while that provider still exists.
+export function migrateHistoryEntry(entry: LLMResponse, providers: LLMProvider[]): LLMResponse {
+  if (!needsMigration(entry)) return entry;
+  const matches = providers.filter(p => p.name === entry.provider);
+  const timestamp = typeof entry.timestamp === 'number' ? entry.timestamp : 0;
+  return {
+    ...entry,
+    id: entry.id || `response-${timestamp}`,
+    content: typeof entry.content === 'string' ? entry.content : String(entry.content ?? ''),
+    prompt: typeof entry.prompt === 'string' ? entry.prompt : String(entry.prompt ?? ''),
+    timestamp,
+    ...(!entry.providerId && matches.length === 1 && { providerId: matches[0].id }),
+    // Only the total was stored before per-direction counts existed
+    ...(!entry.usage && typeof entry.tokens === 'number' && { usage: { promptTokens: 0, completionTokens: 0, totalTokens: entry.tokens } }),
+    recordVersion: HISTORY_RECORD_VERSION,
+  };
+}
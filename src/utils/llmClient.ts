@@ -1,14 +1,26 @@
 import type { LLMProvider, APIRequest, APIResponse } from '../types';
+import { resolvePrompt } from './promptResolver';
+import { getRequestVariables } from './promptVariables';
+import { getLocalApiBase } from './localModels';
+import { anthropicApiUrl, GEMINI_API_URL, geminiEndpoint } from '../lib/agent/modelFactory';
+
+// Append a path to a base URL that may carry a query string (e.g. ?api-version=...)
+const joinUrl = (base: string, path: string): string => {
+  const [root, query] = base.split('?', 2);
+  return `${root.replace(/\/+$/, '')}${path}${query ? `?${query}` : ''}`;
+};
 
 class LLMClient {
-  private async httpRequest(url: string, headers: Record<string, string>, body: any): Promise<Response> {
+  private async httpRequest(url: string, headers: Record<string, string>, body: any, provider?: LLMProvider): Promise<Response> {
     const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         ...headers,
+        ...provider?.headers,
       },
       body: JSON.stringify(body),
+      ...(provider?.timeoutMs && { signal: AbortSignal.timeout(provider.timeoutMs) }),
     });
 
     if (!response.ok) {
@@ -22,11 +34,13 @@ class LLMClient {
   
   // OpenAI API handler
   private async handleOpenAI(request: APIRequest): Promise<APIResponse> {
-    const { provider, prompt, selectedText } = request;
-    const finalPrompt = prompt.replace('{{selectedText}}', selectedText);
+    const { provider, prompt } = request;
+    const finalPrompt = resolvePrompt(prompt, getRequestVariables(request));
 
-    const headers = {
+    const headers: Record<string, string> = {
       'Authorization': `Bearer ${provider.apiKey}`,
+      ...(provider.organization && { 'OpenAI-Organization': provider.organization }),
+      ...(provider.project && { 'OpenAI-Project': provider.project }),
     };
 
     const body = {
@@ -44,9 +58,10 @@ class LLMClient {
 
     try {
       const response = await this.httpRequest(
-        `${provider.baseUrl || 'https://api.openai.com/v1'}/chat/completions`,
+        joinUrl(provider.baseUrl || 'https://api.openai.com/v1', '/chat/completions'),
         headers,
-        body
+        body,
+        provider
       );
 
       const data = await response.json();
@@ -75,8 +90,8 @@ class LLMClient {
 
   // Claude API handler
   private async handleClaude(request: APIRequest): Promise<APIResponse> {
-    const { provider, prompt, selectedText } = request;
-    const finalPrompt = prompt.replace('{{selectedText}}', selectedText);
+    const { provider, prompt } = request;
+    const finalPrompt = resolvePrompt(prompt, getRequestVariables(request));
 
     const headers = {
       'x-api-key': provider.apiKey,
@@ -97,9 +112,10 @@ class LLMClient {
 
     try {
       const response = await this.httpRequest(
-        `${provider.baseUrl || 'https://api.anthropic.com/v1'}/messages`,
+        `${anthropicApiUrl(provider.baseUrl) || 'https://api.anthropic.com'}/v1/messages`,
         headers,
-        body
+        body,
+        provider
       );
 
       const data = await response.json();
@@ -128,8 +144,8 @@ class LLMClient {
 
   // Gemini API handler
   private async handleGemini(request: APIRequest): Promise<APIResponse> {
-    const { provider, prompt, selectedText } = request;
-    const finalPrompt = prompt.replace('{{selectedText}}', selectedText);
+    const { provider, prompt } = request;
+    const finalPrompt = resolvePrompt(prompt, getRequestVariables(request));
 
     const headers = {
       'x-goog-api-key': provider.apiKey,
@@ -151,11 +167,15 @@ class LLMClient {
       },
     };
 
+    // Same base URL handling as the agent's Gemini model, so both reach the same endpoint
+    const { baseUrl = GEMINI_API_URL, apiVersion = 'v1beta' } = geminiEndpoint(provider.baseUrl);
+
     try {
       const response = await this.httpRequest(
-        `${provider.baseUrl || 'https://generativelanguage.googleapis.com/v1beta'}/models/${provider.model}:generateContent`,
+        `${baseUrl}/${apiVersion}/models/${provider.model}:generateContent`,
         headers,
-        body
+        body,
+        provider
       );
 
       const data = await response.json();
@@ -184,11 +204,13 @@ class LLMClient {
 
   // Generic API handler for OpenAI-compatible APIs (DeepSeek, Qwen, GLM, etc.)
   private async handleGeneric(request: APIRequest): Promise<APIResponse> {
-    const { provider, prompt, selectedText } = request;
-    const finalPrompt = prompt.replace('{{selectedText}}', selectedText);
+    const { provider, prompt } = request;
+    const finalPrompt = resolvePrompt(prompt, getRequestVariables(request));
 
-    const headers = {
-      'Authorization': `Bearer ${provider.apiKey}`,
+    const headers: Record<string, string> = {
+      ...(provider.apiKey && { 'Authorization': `Bearer ${provider.apiKey}` }),
+      ...(provider.organization && { 'OpenAI-Organization': provider.organization }),
+      ...(provider.project && { 'OpenAI-Project': provider.project }),
     };
 
     const body = {
@@ -209,7 +231,7 @@ class LLMClient {
         throw new Error('Base URL is required for this provider');
       }
 
-      const response = await this.httpRequest(`${provider.baseUrl}/chat/completions`, headers, body);
+      const response = await this.httpRequest(joinUrl(provider.baseUrl, '/chat/completions'), headers, body, provider);
       const data = await response.json();
       const content = data.choices?.[0]?.message?.content;
 
@@ -245,7 +267,7 @@ class LLMClient {
       };
     }
 
-    if (!provider.apiKey) {
+    if (!provider.apiKey && provider.type !== 'local') {
       return {
         success: false,
         error: 'API key is required',
@@ -259,6 +281,8 @@ class LLMClient {
         return this.handleClaude(request);
       case 'gemini':
         return this.handleGemini(request);
+      case 'local':
+        return this.handleGeneric({ ...request, provider: { ...provider, baseUrl: getLocalApiBase(provider.baseUrl) } });
       case 'deepseek':
       case 'qwen':
       case 'glm':
@@ -273,7 +297,8 @@ class LLMClient {
       return { valid: false, error: 'Provider name is required' };
     }
 
-    if (!provider.apiKey) {
+    // Local servers usually run without authentication
+    if (!provider.apiKey && provider.type !== 'local') {
       return { valid: false, error: 'API key is required' };
     }
 
@@ -289,17 +314,6 @@ class LLMClient {
 
     return { valid: true };
   }
-
-  // Test provider connection
-  async testProvider(provider: LLMProvider): Promise<APIResponse> {
-    const testRequest: APIRequest = {
-      provider,
-      prompt: 'Hello, please respond with "Connection successful"',
-      selectedText: '',
-    };
-
-    return this.makeRequest(testRequest);
-  }
 }
 
 export const llmClient = new LLMClient();
\ No newline at end of file
@@ -0,0 +1,41 @@
+// Local model servers: Ollama (native /api/tags, OpenAI-compatible /v1), LM Studio and llama.cpp (/v1)
+export const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+const stripTrailingSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+// Chat requests always go through the OpenAI-compatible API, which every supported server exposes under /v1
+export function getLocalApiBase(baseUrl?: string): string {
+  const base = stripTrailingSlash(baseUrl || LOCAL_DEFAULT_BASE_URL);
+  return /\/v1$/.test(base) ? base : `${base}/v1`;
+}
+
+const getJson = async (url: string): Promise<any> => {
+  const response = await fetch(url, { signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  return response.json();
+};
+
+// Installed models, from Ollama's /api/tags or else the OpenAI-compatible /v1/models
+export async function discoverLocalModels(baseUrl?: string): Promise<string[]> {
+  const apiBase = getLocalApiBase(baseUrl);
+  const root = apiBase.replace(/\/v1$/, '');
+  try {
+    const data = await getJson(`${root}/api/tags`);
+    if (Array.isArray(data?.models)) {
+      return data.models.map((m: any) => m?.name || m?.model).filter((name: any): name is string => typeof name === 'string');
+    }
+  } catch {
+    // Not Ollama; fall through to the OpenAI-compatible listing
+  }
+  try {
+    const data = await getJson(`${apiBase}/models`);
+    if (Array.isArray(data?.data)) {
+      return data.data.map((m: any) => m?.id).filter((id: any): id is string => typeof id === 'string');
+    }
+    throw new Error('Unexpected response from /v1/models');
+  } catch (error) {
+    throw new Error(`Could not reach a local model server at ${root}: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+}
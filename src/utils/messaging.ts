@@ -1,3 +1,6 @@
+import type { AgentStep, LLMProvider, StreamEvent, StreamRequest, ToolApprovalRequest, ToolApprovalDecision } from '../types';
+import type { ImageRegion } from '../lib/agent/images';
+
 export async function send(type: string, payload?: any): Promise<any> {
   try {
     if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.id) {
@@ -30,7 +33,78 @@ export async function setStorage(key: string, value: any): Promise<boolean> {
   return !!(r && r.success);
 }
 
+// Drop the background history of a result panel conversation, or everything after its first answer
+export async function resetConversation(sessionId: string, keepFirstAnswer = false): Promise<boolean> {
+  const r = await send('RESET_CONVERSATION', { sessionId, keepFirstAnswer });
+  return !!(r && r.success);
+}
+
+// Screenshot of the visible tab, cropped to the region and downscaled; returns a data URL
+export async function captureRegion(region?: ImageRegion): Promise<{ success: boolean; data?: string; error?: string }> {
+  return send('CAPTURE_REGION', { region });
+}
+
+// Check a provider's settings with a short request from the background
+export async function testProvider(provider: LLMProvider): Promise<{ success: boolean; data?: string; error?: string }> {
+  return send('TEST_PROVIDER', provider);
+}
+
 export async function apiRequest(payload: any): Promise<any> {
   const r = await send('API_REQUEST', payload);
   return r;
 }
+
+export interface StreamHandlers {
+  onText?: (text: string) => void;
+  onStep?: (step: AgentStep) => void;
+  // Resolves the user's answer for a high-risk tool call; without it such calls are denied
+  onApproval?: (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+  // Aborting sends CANCEL to the background; the promise then resolves with `cancelled: true`
+  signal?: AbortSignal;
+}
+
+export function streamApiRequest(payload: any, handlers: StreamHandlers = {}): Promise<any> {
+  return new Promise((resolve) => {
+    let port: chrome.runtime.Port;
+    try {
+      if (typeof chrome === 'undefined' || !chrome.runtime || !chrome.runtime.id) {
+        resolve({ success: false, error: 'runtime_unavailable' });
+        return;
+      }
+      port = chrome.runtime.connect({ name: 'agent-bar-stream' });
+    } catch (e: any) {
+      resolve({ success: false, error: e?.message || 'connect_failed' });
+      return;
+    }
+    let settled = false;
+    const post = (msg: StreamRequest) => {
+      try { port.postMessage(msg); } catch {}
+    };
+    port.onMessage.addListener((event: StreamEvent) => {
+      if (!event || settled) return;
+      if (event.type === 'STREAM_TEXT') {
+        handlers.onText?.(event.text);
+      } else if (event.type === 'STREAM_STEP') {
+        handlers.onStep?.(event.step);
+      } else if (event.type === 'STREAM_APPROVAL') {
+        const ask = handlers.onApproval ? handlers.onApproval(event.request) : Promise.resolve({ approved: false });
+        ask
+          .catch(() => ({ approved: false }))
+          .then((decision) => post({ type: 'APPROVAL_RESPONSE', id: event.request.id, decision }));
+      } else if (event.type === 'STREAM_DONE') {
+        settled = true;
+        resolve(event.response);
+        try { port.disconnect(); } catch {}
+      }
+    });
+    port.onDisconnect.addListener(() => {
+      if (settled) return;
+      settled = true;
+      resolve(handlers.signal?.aborted
+        ? { success: false, cancelled: true, error: 'Cancelled by user' }
+        : { success: false, error: 'stream_disconnected' });
+    });
+    handlers.signal?.addEventListener('abort', () => post({ type: 'CANCEL' }), { once: true });
+    post({ type: 'API_REQUEST', payload });
+  });
+}
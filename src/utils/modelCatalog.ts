@@ -0,0 +1,139 @@
+import type { LLMProvider } from '../types';
+import { discoverLocalModels } from './localModels';
+
+export interface ModelOption {
+  value: string;
+  label: string;
+}
+
+// Suggestions shown until a provider's list has been refreshed from its API
+export const STATIC_MODELS: Record<LLMProvider['type'], ModelOption[]> = {
+  openai: [
+    { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' },
+    { value: 'gpt-4', label: 'GPT-4' },
+    { value: 'gpt-4-turbo', label: 'GPT-4 Turbo' },
+    { value: 'gpt-4o', label: 'GPT-4o' },
+    { value: 'gpt-4o-mini', label: 'GPT-4o Mini' },
+  ],
+  claude: [
+    { value: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku' },
+    { value: 'claude-3-sonnet-20240229', label: 'Claude 3 Sonnet' },
+    { value: 'claude-3-opus-20240229', label: 'Claude 3 Opus' },
+    { value: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet' },
+  ],
+  gemini: [
+    { value: 'gemini-pro', label: 'Gemini Pro' },
+    { value: 'gemini-pro-vision', label: 'Gemini Pro Vision' },
+    { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro' },
+    { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
+  ],
+  deepseek: [
+    { value: 'deepseek-chat', label: 'DeepSeek Chat' },
+    { value: 'deepseek-reasoner', label: 'DeepSeek Reasoner' },
+  ],
+  qwen: [
+    { value: 'qwen-turbo', label: 'Qwen Turbo' },
+    { value: 'qwen-plus', label: 'Qwen Plus' },
+    { value: 'qwen-max', label: 'Qwen Max' },
+  ],
+  glm: [
+    { value: 'glm-4-flash', label: 'GLM-4 Flash' },
+    { value: 'glm-4', label: 'GLM-4' },
+    { value: 'glm-4-0520', label: 'GLM-4 0520' },
+    { value: 'glm-4-air', label: 'GLM-4 Air' },
+    { value: 'glm-4-airx', label: 'GLM-4 AirX' },
+  ],
+  // Discovered from the running server instead
+  local: [],
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<LLMProvider['type'], string>> = {
+  openai: 'https://api.openai.com/v1',
+  claude: 'https://api.anthropic.com',
+  gemini: 'https://generativelanguage.googleapis.com',
+};
+
+const LIST_TIMEOUT_MS = 15000;
+
+// Same query-string handling as llmClient: "?api-version=..." stays at the end
+const joinUrl = (base: string, path: string): string => {
+  const [root, query] = base.split('?', 2);
+  return `${root.replace(/\/+$/, '')}${path}${query ? `?${query}` : ''}`;
+};
+
+const getJson = async (url: string, headers: Record<string, string>, provider: LLMProvider): Promise<any> => {
+  const response = await fetch(url, {
+    headers: { ...headers, ...provider.headers },
+    signal: AbortSignal.timeout(provider.timeoutMs || LIST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const ids = (items: any[], key: string): string[] =>
+  items.map(item => item?.[key]).filter((id: any): id is string => typeof id === 'string');
+
+const listClaudeModels = async (provider: LLMProvider): Promise<string[]> => {
+  const base = (provider.baseUrl || DEFAULT_BASE_URLS.claude!).replace(/\/+$/, '').replace(/\/v1$/, '');
+  const data = await getJson(`${base}/v1/models?limit=1000`, {
+    'x-api-key': provider.apiKey,
+    'anthropic-version': '2023-06-01',
+    'anthropic-dangerous-direct-browser-access': 'true',
+  }, provider);
+  return ids(data?.data || [], 'id');
+};
+
+const listGeminiModels = async (provider: LLMProvider): Promise<string[]> => {
+  const base = (provider.baseUrl || DEFAULT_BASE_URLS.gemini!).replace(/\/+$/, '').replace(/\/v\d+(?:alpha|beta)?\d*$/, '');
+  const data = await getJson(`${base}/v1beta/models?pageSize=1000`, { 'x-goog-api-key': provider.apiKey }, provider);
+  return (data?.models || [])
+    // Embedding and other non-chat models cannot answer prompts
+    .filter((m: any) => !Array.isArray(m?.supportedGenerationMethods) || m.supportedGenerationMethods.includes('generateContent'))
+    .map((m: any) => typeof m?.name === 'string' ? m.name.replace(/^models\//, '') : undefined)
+    .filter((name: any): name is string => !!name);
+};
+
+const listOpenAICompatibleModels = async (provider: LLMProvider): Promise<string[]> => {
+  const base = provider.baseUrl || DEFAULT_BASE_URLS.openai!;
+  const data = await getJson(joinUrl(base, '/models'), {
+    ...(provider.apiKey && { 'Authorization': `Bearer ${provider.apiKey}` }),
+    ...(provider.organization && { 'OpenAI-Organization': provider.organization }),
+    ...(provider.project && { 'OpenAI-Project': provider.project }),
+  }, provider);
+  return ids(data?.data || [], 'id');
+};
+
+// Model IDs from the provider's own listing endpoint, using its saved key
+export async function fetchProviderModels(provider: LLMProvider): Promise<string[]> {
+  if (!provider.apiKey && provider.type !== 'local') {
+    throw new Error('Save an API key before refreshing the model list');
+  }
+  let models: string[];
+  switch (provider.type) {
+    case 'local':
+      models = await discoverLocalModels(provider.baseUrl);
+      break;
+    case 'claude':
+      models = await listClaudeModels(provider);
+      break;
+    case 'gemini':
+      models = await listGeminiModels(provider);
+      break;
+    default:
+      models = await listOpenAICompatibleModels(provider);
+  }
+  return Array.from(new Set(models)).sort((a, b) => a.localeCompare(b));
+}
+
+// Refreshed models when available, otherwise the built-in suggestions; the current model is always included
+export function getModelOptions(provider: LLMProvider, refreshed?: string[]): ModelOption[] {
+  const options = refreshed && refreshed.length
+    ? refreshed.map(id => ({ value: id, label: id }))
+    : STATIC_MODELS[provider.type] || [];
+  if (provider.model && !options.some(o => o.value === provider.model)) {
+    return [{ value: provider.model, label: provider.model }, ...options];
+  }
+  return options;
+}
@@ -0,0 +1,66 @@
+import type { ModelPrice, TokenUsage } from '../types';
+
+// List prices in USD per million tokens; used for estimates only. Keys match model IDs by prefix,
+// so dated snapshots (e.g. gpt-4o-2024-08-06) share their family's price.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o1': { input: 15, output: 60 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'qwen-turbo': { input: 0.05, output: 0.2 },
+  'qwen-plus': { input: 0.4, output: 1.2 },
+  'qwen-max': { input: 1.6, output: 6.4 },
+  'glm-4-flash': { input: 0, output: 0 },
+  'glm-4-air': { input: 0.07, output: 0.07 },
+  'glm-4': { input: 14, output: 14 },
+};
+
+// Gateways often prefix the vendor, e.g. "openai/gpt-4o"
+const normalizeModel = (model: string) => model.trim().toLowerCase().split('/').pop() || '';
+
+// The user's override for the exact model wins, then the longest matching built-in prefix
+export function getModelPrice(model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | undefined {
+  const id = normalizeModel(model);
+  const override = Object.entries(overrides).find(([key]) => normalizeModel(key) === id);
+  if (override) return override[1];
+  const key = Object.keys(MODEL_PRICES)
+    .filter(prefix => id === prefix || id.startsWith(`${prefix}-`) || id.startsWith(`${prefix}@`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_PRICES[key] : undefined;
+}
+
+// Estimated USD cost, or undefined when the model has no known price
+export function estimateCost(model: string, usage: TokenUsage, overrides?: Record<string, ModelPrice>): number | undefined {
+  const price = getModelPrice(model, overrides);
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
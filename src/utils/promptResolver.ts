@@ -0,0 +1,257 @@
+export type PromptVariables = Record<string, string | undefined>;
+
+// Prompt templates are a small, logic-less language evaluated without any JS:
+//   {{name}}                      value of a variable (left untouched when the variable is unknown)
+//   {{name | "fallback"}}         fallback when the value is empty
+//   {{name | truncate:2000 | upper}}  filters, applied left to right
+//   {{#if name}}…{{else}}…{{/if}}  {{#unless name}}…{{/unless}}
+//   {{#each name}}{{@index}}. {{this}}{{/each}}  one iteration per non-empty line of the value
+
+// Matches {{…}}; dropdown names may contain spaces, so anything but braces is allowed
+const TAG_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const BLOCK_KEYWORDS = ['if', 'unless', 'each'] as const;
+
+type BlockKeyword = typeof BLOCK_KEYWORDS[number];
+
+interface Filter {
+  name: string;
+  arg?: string;
+}
+
+interface Expression {
+  name: string;
+  fallback?: string;
+  filters: Filter[];
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; raw: string; expr: Expression }
+  | { type: 'block'; keyword: BlockKeyword; name: string; body: TemplateNode[]; alternate: TemplateNode[] };
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public readonly index: number) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type TemplateFilter = { needsArg: boolean; apply: (value: string, arg?: string) => string };
+
+const FILTERS: Record<string, TemplateFilter> = Object.assign(Object.create(null), {
+  truncate: { needsArg: true, apply: (value: string, arg?: string) => value.slice(0, Number(arg)) },
+  upper: { needsArg: false, apply: (value: string) => value.toUpperCase() },
+  lower: { needsArg: false, apply: (value: string) => value.toLowerCase() },
+  trim: { needsArg: false, apply: (value: string) => value.trim() },
+  json: { needsArg: false, apply: (value: string) => JSON.stringify(value) },
+});
+
+// Names come from user templates, so only own keys count: "toString" or "constructor" must not
+// resolve to Object.prototype members
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+const getFilter = (name: string): TemplateFilter | undefined => (hasOwn(FILTERS, name) ? FILTERS[name] : undefined);
+
+// Anything that isn't a string (a missing or inherited name) counts as an unknown variable
+const getVariable = (variables: PromptVariables, name: string): string | undefined => {
+  const value = hasOwn(variables, name) ? variables[name] : undefined;
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Split on "|" outside of quoted strings
+const splitPipes = (source: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const ch of source) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '|') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current.trim());
+  return parts;
+};
+
+const parseExpression = (source: string, index: number): Expression => {
+  const [name, ...segments] = splitPipes(source);
+  if (!name) throw new TemplateSyntaxError(`Missing variable name in "{{${source}}}"`, index);
+  if (/^["']/.test(name)) throw new TemplateSyntaxError(`Expected a variable name before "${name}"`, index);
+  const expr: Expression = { name, filters: [] };
+  for (const segment of segments) {
+    const quoted = segment.match(/^(["'])(.*)\1$/s);
+    if (quoted) {
+      if (expr.fallback !== undefined) throw new TemplateSyntaxError(`"{{${source}}}" has more than one fallback`, index);
+      expr.fallback = quoted[2];
+      continue;
+    }
+    const [filterName, arg] = segment.split(':').map(s => s.trim());
+    const filter = getFilter(filterName);
+    if (!filter) throw new TemplateSyntaxError(`Unknown filter "${filterName || segment}"`, index);
+    if (filter.needsArg && !/^\d+$/.test(arg || '')) {
+      throw new TemplateSyntaxError(`Filter "${filterName}" needs a number, e.g. ${filterName}:2000`, index);
+    }
+    if (!filter.needsArg && arg !== undefined) throw new TemplateSyntaxError(`Filter "${filterName}" takes no argument`, index);
+    expr.filters.push({ name: filterName, arg });
+  }
+  return expr;
+};
+
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `target` is where new nodes go (body or else-branch)
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'block' }>; target: TemplateNode[]; index: number; parent: TemplateNode[] }> = [];
+  let target = root;
+  let last = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) target.push({ type: 'text', text: template.slice(last, index) });
+    last = index + match[0].length;
+    const tag = match[1];
+
+    if (tag.startsWith('#')) {
+      const [, keyword, name] = tag.match(/^#(\w+)\s*(.*)$/s) || [];
+      if (!BLOCK_KEYWORDS.includes(keyword as BlockKeyword)) throw new TemplateSyntaxError(`Unknown block "{{${tag}}}"`, index);
+      if (!name) throw new TemplateSyntaxError(`"{{#${keyword}}}" needs a variable name`, index);
+      const node = { type: 'block' as const, keyword: keyword as BlockKeyword, name: name.trim(), body: [], alternate: [] };
+      target.push(node);
+      stack.push({ node, target: node.body, index, parent: target });
+      target = node.body;
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open) throw new TemplateSyntaxError(`"{{${tag}}}" has no matching opening block`, index);
+      if (open.node.keyword !== keyword) {
+        throw new TemplateSyntaxError(`Expected "{{/${open.node.keyword}}}" but found "{{${tag}}}"`, index);
+      }
+      target = open.parent;
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.keyword === 'each') throw new TemplateSyntaxError('"{{else}}" must be inside {{#if}} or {{#unless}}', index);
+      if (open.target === open.node.alternate) throw new TemplateSyntaxError('A block can only have one "{{else}}"', index);
+      open.target = open.node.alternate;
+      target = open.node.alternate;
+    } else {
+      target.push({ type: 'value', raw: match[0], expr: parseExpression(tag, index) });
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new TemplateSyntaxError(`"{{#${open.node.keyword} ${open.node.name}}}" is never closed`, open.index);
+  }
+  if (last < template.length) root.push({ type: 'text', text: template.slice(last) });
+  return root;
+}
+
+// Returns a readable error message, or null when the template is valid
+export function validateTemplate(template: string): string | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error.message;
+    throw error;
+  }
+}
+
+const isTruthy = (value?: string) => typeof value === 'string' && value.trim().length > 0;
+
+const render = (nodes: TemplateNode[], variables: PromptVariables): string => {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += node.text;
+    } else if (node.type === 'value') {
+      const { name, fallback, filters } = node.expr;
+      let value = getVariable(variables, name);
+      if (!isTruthy(value) && fallback !== undefined) value = fallback;
+      if (value === undefined) {
+        out += node.raw;
+        continue;
+      }
+      for (const filter of filters) value = getFilter(filter.name)!.apply(value, filter.arg);
+      out += value;
+    } else if (node.keyword === 'each') {
+      const items = (getVariable(variables, node.name) || '').split(/\r?\n/).filter(line => line.trim());
+      items.forEach((item, i) => {
+        out += render(node.body, { ...variables, this: item, '@index': String(i + 1) });
+      });
+    } else {
+      const truthy = isTruthy(getVariable(variables, node.name));
+      out += render((node.keyword === 'if') === truthy ? node.body : node.alternate, variables);
+    }
+  }
+  return out;
+};
+
+// Plain {{name}} replacement, as templates were resolved before blocks and filters existed
+const substituteVariables = (template: string, variables: PromptVariables): string =>
+  template.replace(TAG_PATTERN, (match, name: string) => getVariable(variables, name) ?? match);
+
+// The toolbar editor validates templates before saving; prompts saved before that (or imported) may
+// still be malformed, and those fall back to plain substitution instead of failing the click.
+// The toolbar list reports them through findInvalidPrompts.
+export function resolvePrompt(template: string, variables: PromptVariables): string {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error;
+    console.warn('⚠️ Prompt template is invalid, using plain substitution:', error.message);
+    return substituteVariables(template, variables);
+  }
+  return render(nodes, variables);
+}
+
+export interface InvalidPrompt {
+  toolbarId: string;
+  toolbarName: string;
+  buttonId: string;
+  buttonTitle: string;
+  error: string;
+}
+
+// Buttons whose saved prompt the template language rejects
+export function findInvalidPrompts(toolbars: Array<{ id: string; name: string; buttons: Array<{ id: string; title: string; prompt: string }> }>): InvalidPrompt[] {
+  return toolbars.flatMap(toolbar => toolbar.buttons.flatMap(button => {
+    const error = validateTemplate(button.prompt);
+    return error ? [{ toolbarId: toolbar.id, toolbarName: toolbar.name, buttonId: button.id, buttonTitle: button.title, error }] : [];
+  }));
+}
+
+const collectNames = (nodes: TemplateNode[], names: Set<string>) => {
+  for (const node of nodes) {
+    if (node.type === 'value') names.add(node.expr.name);
+    if (node.type === 'block') {
+      names.add(node.name);
+      collectNames(node.body, names);
+      collectNames(node.alternate, names);
+    }
+  }
+};
+
+export function usesVariable(template: string, name: string): boolean {
+  const names = new Set<string>();
+  try {
+    collectNames(parseTemplate(template), names);
+  } catch {
+    // Best effort for invalid templates: look at every tag
+    for (const match of template.matchAll(TAG_PATTERN)) names.add(splitPipes(match[1].replace(/^[#/]\w+\s*/, ''))[0]);
+  }
+  return names.has(name);
+}
+
+// Toolbar context that the template does not place itself is sent as system context instead
+export function getSystemContext(template: string, context?: string): string | undefined {
+  const trimmed = (context || '').trim();
+  if (!trimmed || usesVariable(template, 'context')) return undefined;
+  return trimmed;
+}
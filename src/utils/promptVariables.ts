@@ -0,0 +1,108 @@
+import type { APIRequest } from '../types';
+import { usesVariable, type PromptVariables } from './promptResolver';
+
+// What the content script knows about the page when a button is clicked
+export interface PageTarget {
+  selection?: Selection | null;
+  input?: HTMLElement | null;
+}
+
+export interface PromptVariableDefinition {
+  name: string;
+  description: string;
+  // Computed in the content script; variables without it are filled in by the background
+  collect?: (target: PageTarget) => string | Promise<string>;
+}
+
+const MAX_PARAGRAPH_LENGTH = 2000;
+const BLOCK_SELECTOR = 'p, li, td, th, blockquote, pre, h1, h2, h3, h4, h5, h6, dd, dt, figcaption, article, section, div';
+
+const getInputValue = (el?: HTMLElement | null): string => {
+  if (!el) return '';
+  if (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA') return (el as HTMLInputElement).value || '';
+  if (el.isContentEditable) return el.innerText || el.textContent || '';
+  return '';
+};
+
+const getSurroundingParagraph = (target: PageTarget): string => {
+  let node: Node | null = null;
+  const sel = target.selection;
+  if (sel && sel.rangeCount > 0 && !sel.isCollapsed) {
+    node = sel.getRangeAt(0).commonAncestorContainer;
+  } else if (target.input) {
+    node = target.input.parentElement;
+  }
+  const el = node && (node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement);
+  const block = el?.closest(BLOCK_SELECTOR) as HTMLElement | null;
+  const text = (block?.innerText || block?.textContent || '').trim();
+  return text.length > MAX_PARAGRAPH_LENGTH ? text.slice(0, MAX_PARAGRAPH_LENGTH) : text;
+};
+
+const formatToday = (): string => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const PROMPT_VARIABLES: PromptVariableDefinition[] = [
+  { name: 'selectedText', description: 'Text selected on the page' },
+  { name: 'context', description: 'Context of the toolbar' },
+  { name: 'pageTitle', description: 'Title of the current page', collect: () => document.title || '' },
+  { name: 'pageUrl', description: 'Full URL of the current page', collect: () => window.location.href },
+  { name: 'host', description: 'Host name of the current page', collect: () => window.location.host },
+  { name: 'surroundingParagraph', description: 'Paragraph around the selection or focused input', collect: getSurroundingParagraph },
+  { name: 'inputValue', description: 'Current value of the focused input', collect: (target) => getInputValue(target.input) },
+  { name: 'today', description: "Today's date (YYYY-MM-DD)", collect: formatToday },
+  { name: 'browserLanguage', description: 'Browser UI language, e.g. en-US', collect: () => navigator.language || '' },
+  {
+    name: 'clipboard',
+    description: 'Current clipboard text',
+    collect: async () => {
+      try {
+        return await navigator.clipboard.readText();
+      } catch {
+        return '';
+      }
+    }
+  },
+];
+
+const PAGE_VARIABLE_NAMES = new Set(PROMPT_VARIABLES.filter(v => v.collect).map(v => v.name));
+
+export function isPageVariable(name: string): boolean {
+  return PAGE_VARIABLE_NAMES.has(name);
+}
+
+// Collect only the page variables the template uses (clipboard access in particular is opt-in)
+export async function collectPageVariables(template: string, target: PageTarget): Promise<Record<string, string>> {
+  const values: Record<string, string> = {};
+  for (const def of PROMPT_VARIABLES) {
+    if (!def.collect || !usesVariable(template, def.name)) continue;
+    try {
+      values[def.name] = await def.collect(target);
+    } catch {
+      values[def.name] = '';
+    }
+  }
+  return values;
+}
+
+// Variables available to a toolbar button request
+export function getRequestVariables(request: Pick<APIRequest, 'selectedText' | 'context' | 'dropdownVars' | 'pageVariables'>): PromptVariables {
+  const variables: PromptVariables = {
+    selectedText: request.selectedText ?? '',
+    context: request.context ?? '',
+  };
+  // Only registered page variables may come from the page; they cannot shadow selectedText/context
+  for (const [name, value] of Object.entries(request.pageVariables || {})) {
+    if (isPageVariable(name) && typeof value === 'string') variables[name] = value;
+  }
+  if (request.dropdownVars && typeof request.dropdownVars === 'object') {
+    for (const [name, payload] of Object.entries(request.dropdownVars)) {
+      const label = payload?.label || '';
+      const desc = payload?.description || '';
+      variables[name] = `${label}${desc ? `(${desc})` : ''}`;
+    }
+  }
+  return variables;
+}
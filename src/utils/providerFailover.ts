@@ -0,0 +1,85 @@
+import type { LLMProvider } from '../types';
+
+const MAX_ATTEMPTS_PER_PROVIDER = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+
+export interface FailoverAttempt {
+  provider: LLMProvider;
+  attempt: number; // 1-based, per provider
+  error: unknown;
+}
+
+export interface FailoverOptions {
+  signal?: AbortSignal;
+  // Return false once retrying is unsafe, e.g. after the agent already ran tools
+  canRetry?: () => boolean;
+  onRetry?: (failed: FailoverAttempt) => void;
+}
+
+// HTTP status from the various SDK error shapes, or from messages like "[429 Too Many Requests]"
+export function getErrorStatus(error: unknown): number | undefined {
+  const e = error as any;
+  const status = e?.status ?? e?.statusCode ?? e?.response?.status ?? e?.error?.status;
+  if (typeof status === 'number') return status;
+  const match = String(e?.message || '').match(/\b(429|5\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+// Rate limits, server errors and dropped connections are worth retrying; bad keys or requests are not
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status === 429 || status === 408 || status >= 500;
+  const message = String((error as any)?.message || '').toLowerCase();
+  return /failed to fetch|fetch failed|network|timed? ?out|econnreset|socket hang up/.test(message);
+}
+
+// The primary first, then the configured fallbacks that are enabled and not the primary
+export function getProviderChain(primary: LLMProvider, providers: LLMProvider[], fallbackIds: string[] = []): LLMProvider[] {
+  const fallbacks = fallbackIds
+    .filter(id => id !== primary.id)
+    .map(id => providers.find(p => p.id === id && p.enabled))
+    .filter((p): p is LLMProvider => !!p);
+  return [primary, ...fallbacks];
+}
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new Error('Aborted'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error('Aborted'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Run against each provider in turn: retryable errors are retried with exponential backoff,
+// then the next provider is tried. Other errors, and the last provider's error, are rethrown.
+export async function runWithFailover<T>(
+  chain: LLMProvider[],
+  run: (provider: LLMProvider) => Promise<T>,
+  options: FailoverOptions = {}
+): Promise<{ result: T; provider: LLMProvider }> {
+  let lastError: unknown = new Error('No LLM provider configured or enabled');
+  for (const provider of chain) {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_PROVIDER; attempt++) {
+      try {
+        return { result: await run(provider), provider };
+      } catch (error) {
+        if (options.signal?.aborted || !isRetryableError(error) || options.canRetry?.() === false) throw error;
+        lastError = error;
+        options.onRetry?.({ provider, attempt, error });
+        if (attempt < MAX_ATTEMPTS_PER_PROVIDER) {
+          await wait(Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS), options.signal);
+        }
+      }
+    }
+  }
+  throw lastError;
+}
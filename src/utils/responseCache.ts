@@ -0,0 +1,60 @@
+import type { CachedResponse, ResponseCacheSettings } from '../types';
+
+export const DEFAULT_RESPONSE_CACHE: ResponseCacheSettings = {
+  enabled: false,
+  ttlMinutes: 24 * 60,
+  maxEntries: 200,
+};
+
+export interface CacheKeyParts {
+  prompt: string;
+  systemContext?: string;
+  providerId: string;
+  model: string;
+  temperature?: number;
+  executionMode: string;
+  allowedTools?: string[];
+}
+
+// SHA-256 over everything that changes the answer; the prompt itself is never stored as the key
+export async function getCacheKey(parts: CacheKeyParts): Promise<string> {
+  const material = JSON.stringify([
+    parts.prompt,
+    parts.systemContext || '',
+    parts.providerId,
+    parts.model,
+    parts.temperature ?? null,
+    parts.executionMode,
+    [...(parts.allowedTools || [])].sort(),
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const isFresh = (entry: CachedResponse, settings: ResponseCacheSettings, now: number) =>
+  now - entry.createdAt < settings.ttlMinutes * 60 * 1000;
+
+export function findCachedResponse(
+  cache: Record<string, CachedResponse>,
+  key: string,
+  settings: ResponseCacheSettings,
+  now = Date.now()
+): CachedResponse | null {
+  const entry = cache[key];
+  return entry && isFresh(entry, settings, now) ? entry : null;
+}
+
+// Adds an entry, drops expired ones and then the oldest until the size cap holds
+export function addCachedResponse(
+  cache: Record<string, CachedResponse>,
+  key: string,
+  entry: CachedResponse,
+  settings: ResponseCacheSettings,
+  now = Date.now()
+): Record<string, CachedResponse> {
+  const kept = Object.entries({ ...cache, [key]: entry })
+    .filter(([, e]) => isFresh(e, settings, now))
+    .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+    .slice(0, Math.max(settings.maxEntries, 0));
+  return Object.fromEntries(kept);
+}
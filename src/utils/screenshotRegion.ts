@@ -0,0 +1,32 @@
+import type { ImageRegion } from '../lib/agent/images';
+
+// Room around the selection so labels and axes next to it stay in the picture
+const PADDING = 16;
+
+export interface RegionSources {
+  selection: Selection | null;
+  input: HTMLElement | null;
+}
+
+// Part of the viewport to capture for a "screenshot the selection" button: the selected range,
+// else the focused input, else the whole viewport. Frames can't map their coordinates onto the
+// tab capture, so they always send the whole viewport.
+export function getScreenshotRegion({ selection, input }: RegionSources): ImageRegion | undefined {
+  if (window !== window.top) return undefined;
+  let rect: DOMRect | null = null;
+  if (selection && selection.rangeCount > 0 && !selection.isCollapsed) {
+    rect = selection.getRangeAt(0).getBoundingClientRect();
+  } else if (input && input.isConnected) {
+    rect = input.getBoundingClientRect();
+  }
+  if (!rect || rect.width === 0 || rect.height === 0) return undefined;
+  const x = Math.max(0, rect.left - PADDING);
+  const y = Math.max(0, rect.top - PADDING);
+  return {
+    x,
+    y,
+    width: Math.min(window.innerWidth, rect.right + PADDING) - x,
+    height: Math.min(window.innerHeight, rect.bottom + PADDING) - y,
+    viewportWidth: window.innerWidth,
+  };
+}
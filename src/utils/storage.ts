@@ -1,4 +1,7 @@
-import type { AgentBarConfig, LLMResponse, ToolbarConfig } from '../types';
+import type { AgentBarConfig, CachedResponse, ConfigRepairReport, LLMResponse, ProviderModelList, ToolbarConfig, ToolPermissionGrant, UsageEntry } from '../types';
+import { addUsage, type UsageRecord } from './usage';
+import { migrateHistoryEntry, needsMigration } from './historyRecord';
+import { CONFIG_VERSION, ConfigValidationError, normalizeConfig, validateConfig } from './configMigration';
 
 const hasRuntime = () => typeof chrome !== 'undefined' && !!chrome.runtime && !!chrome.runtime.id;
 let runtimeWarned = false;
@@ -107,6 +110,7 @@ const DEFAULT_TOOLBARS: ToolbarConfig[] = [
 ];
 
 const DEFAULT_CONFIG: AgentBarConfig = {
+  configVersion: CONFIG_VERSION,
   llmProviders: [],
   toolbarButtons: DEFAULT_TOOLBARS,
   settings: {
@@ -121,8 +125,21 @@ const DEFAULT_CONFIG: AgentBarConfig = {
 class StorageManager {
   private cache = new Map<string, any>();
   private cacheTimeout = new Map<string, ReturnType<typeof setTimeout>>();
+  private writeQueues = new Map<string, Promise<void>>();
+
+  // Runs read-modify-write updates of one key one after another. Runs finishing together in the
+  // background would otherwise read the same old value and overwrite each other's changes.
+  private serialize(key: string, task: () => Promise<void>): Promise<void> {
+    const next = (this.writeQueues.get(key) || Promise.resolve()).then(task, task);
+    const tail = next.catch(() => { });
+    this.writeQueues.set(key, tail);
+    tail.then(() => {
+      if (this.writeQueues.get(key) === tail) this.writeQueues.delete(key);
+    });
+    return next;
+  }
 
-  // Get configuration
+  // Get configuration, migrated to the current version and repaired where it fails validation
   async getConfig(): Promise<AgentBarConfig> {
     try {
       const config = hasRuntime() ? await storage.get('agent-bar-config') : undefined;
@@ -131,18 +148,50 @@ class StorageManager {
         return DEFAULT_CONFIG;
       }
 
-      return { ...DEFAULT_CONFIG, ...config };
+      const normalized = normalizeConfig(config, DEFAULT_CONFIG);
+      if (normalized.changed) {
+        await this.saveNormalizedConfig(config, normalized.config, normalized.issues);
+      } else if (normalized.issues.length > 0) {
+        console.warn('⚠️ Storage: Config used as stored:', normalized.issues);
+      }
+      return normalized.config;
     } catch (error) {
       console.error('❌ Storage: Error getting config:', error);
       return DEFAULT_CONFIG;
     }
   }
 
-  // Update configuration
+  // Write back a migrated config; when data had to be repaired the original is kept for the options page to report
+  private async saveNormalizedConfig(original: unknown, config: AgentBarConfig, issues: string[]): Promise<void> {
+    if (issues.length > 0) {
+      console.warn('⚠️ Storage: Config was repaired:', issues);
+      const report: ConfigRepairReport = { repairedAt: Date.now(), issues, config: original };
+      await storage.set('agent-bar-config-backup', report);
+    }
+    await storage.set('agent-bar-config', config);
+    this.invalidateCache('agent-bar-config');
+  }
+
+  // Get the report of the last config repair, if it wasn't dismissed yet
+  async getConfigRepairReport(): Promise<ConfigRepairReport | null> {
+    return (await storage.get('agent-bar-config-backup')) || null;
+  }
+
+  // Dismiss the config repair report and drop the backup it holds
+  async clearConfigRepairReport(): Promise<void> {
+    await storage.remove('agent-bar-config-backup');
+  }
+
+  // Update configuration; throws ConfigValidationError instead of saving invalid data
   async setConfig(config: Partial<AgentBarConfig>): Promise<void> {
     try {
       const currentConfig = await this.getConfig();
-      const updatedConfig = { ...currentConfig, ...config };
+      // A config from a newer release keeps its version so that release doesn't migrate it again
+      const updatedConfig = { ...currentConfig, ...config, configVersion: Math.max(currentConfig.configVersion ?? 0, config.configVersion ?? 0, CONFIG_VERSION) };
+      const issues = validateConfig(updatedConfig);
+      if (issues.length > 0) {
+        throw new ConfigValidationError(issues);
+      }
       await storage.set('agent-bar-config', updatedConfig);
       this.invalidateCache('agent-bar-config');
     } catch (error) {
@@ -162,6 +211,63 @@ class StorageManager {
     await this.setConfig({ llmProviders: providers });
   }
 
+  // Get the ordered provider fallback list
+  async getProviderFallbackIds(): Promise<string[]> {
+    const config = await this.getConfig();
+    return config.providerFallbackIds || [];
+  }
+
+  // Update the provider fallback list
+  async setProviderFallbackIds(ids: string[]): Promise<void> {
+    await this.setConfig({ providerFallbackIds: ids });
+  }
+
+  // Get cached responses, keyed by request hash
+  async getResponseCache(): Promise<Record<string, CachedResponse>> {
+    try {
+      return (await storage.get('agent-bar-cache')) || {};
+    } catch (error) {
+      console.error('Error getting response cache:', error);
+      return {};
+    }
+  }
+
+  // Replace the cached responses
+  async setResponseCache(cache: Record<string, CachedResponse>): Promise<void> {
+    await storage.set('agent-bar-cache', cache);
+  }
+
+  // Drop every cached response
+  async clearResponseCache(): Promise<void> {
+    try {
+      await storage.remove('agent-bar-cache');
+    } catch (error) {
+      console.error('Error clearing response cache:', error);
+    }
+  }
+
+  // Get refreshed model lists, keyed by provider id
+  async getModelLists(): Promise<Record<string, ProviderModelList>> {
+    try {
+      return (await storage.get('agent-bar-models')) || {};
+    } catch (error) {
+      console.error('Error getting model lists:', error);
+      return {};
+    }
+  }
+
+  // Store the model list fetched for a provider
+  async setModelList(providerId: string, models: string[]): Promise<void> {
+    const lists = await this.getModelLists();
+    await storage.set('agent-bar-models', { ...lists, [providerId]: { models, fetchedAt: Date.now() } });
+  }
+
+  // Drop the model list of a deleted provider
+  async removeModelList(providerId: string): Promise<void> {
+    const { [providerId]: _removed, ...rest } = await this.getModelLists();
+    await storage.set('agent-bar-models', rest);
+  }
+
   // Get URL rules
   async getUrlRules(): Promise<AgentBarConfig['urlRules']> {
     const config = await this.getConfig();
@@ -173,23 +279,36 @@ class StorageManager {
     await this.setConfig({ urlRules: rules });
   }
 
+  // Get "always allow" grants for high-risk agent tools
+  async getToolPermissions(): Promise<ToolPermissionGrant[]> {
+    const config = await this.getConfig();
+    return config.toolPermissions || [];
+  }
+
+  // Update tool permission grants
+  async setToolPermissions(grants: ToolPermissionGrant[]): Promise<void> {
+    await this.setConfig({ toolPermissions: grants });
+  }
+
+  // Add a tool permission grant (no-op if an equivalent grant exists)
+  async addToolPermission(grant: ToolPermissionGrant): Promise<void> {
+    const grants = await this.getToolPermissions();
+    const exists = grants.some(g => g.tool === grant.tool && g.scope === grant.scope && g.host === grant.host && g.toolbarId === grant.toolbarId);
+    if (!exists) {
+      await this.setToolPermissions([...grants, grant]);
+    }
+  }
+
   // Get toolbar buttons (legacy support)
   async getToolbarButtons(): Promise<any[]> {
     const config = await this.getConfig();
     return 'toolbarButtons' in config ? config.toolbarButtons : [];
   }
 
-  // Get toolbars (new structure)
+  // Get toolbars (new structure); legacy buttons were already migrated into toolbars by getConfig
   async getToolbars(): Promise<ToolbarConfig[]> {
     const config = await this.getConfig();
-    if ('toolbarButtons' in config && Array.isArray(config.toolbarButtons)) {
-      const firstItem = config.toolbarButtons[0];
-      if (firstItem && 'buttons' in firstItem && 'websitePatterns' in firstItem) {
-        return config.toolbarButtons as ToolbarConfig[];
-      }
-    }
-    // Return empty array for legacy configurations
-    return [];
+    return config.toolbarButtons;
   }
 
   // Update toolbar buttons (legacy support)
@@ -223,11 +342,15 @@ class StorageManager {
     });
   }
 
-  // Get history
+  // Get history, upgrading entries written by older versions in place
   async getHistory(): Promise<LLMResponse[]> {
     try {
-      const history = await storage.get('agent-bar-history');
-      return history || [];
+      const history: LLMResponse[] = (await storage.get('agent-bar-history')) || [];
+      if (!history.some(needsMigration)) return history;
+      const providers = await this.getLLMProviders();
+      const migrated = history.map(entry => migrateHistoryEntry(entry, providers));
+      await storage.set('agent-bar-history', migrated);
+      return migrated;
     } catch (error) {
       console.error('Error getting history:', error);
       return [];
@@ -237,28 +360,73 @@ class StorageManager {
   // Add to history
   async addToHistory(response: LLMResponse): Promise<void> {
     try {
-      const history = await this.getHistory();
-      const updatedHistory = [response, ...history];
-      const settings = await this.getSettings();
-      const maxHistory = settings.maxHistory || 50;
-
-      // Keep only the latest items
-      const trimmedHistory = updatedHistory.slice(0, maxHistory);
-      await storage.set('agent-bar-history', trimmedHistory);
+      await this.serialize('agent-bar-history', async () => {
+        const history = await this.getHistory();
+        const updatedHistory = [response, ...history];
+        const settings = await this.getSettings();
+        const maxHistory = settings.maxHistory || 50;
+
+        // Keep only the latest items
+        const trimmedHistory = updatedHistory.slice(0, maxHistory);
+        await storage.set('agent-bar-history', trimmedHistory);
+      });
     } catch (error) {
       console.error('Error adding to history:', error);
     }
   }
 
+  // Delete history entries by id
+  async deleteHistoryEntries(ids: string[]): Promise<void> {
+    try {
+      await this.serialize('agent-bar-history', async () => {
+        const history = await this.getHistory();
+        await storage.set('agent-bar-history', history.filter(entry => !ids.includes(entry.id)));
+      });
+    } catch (error) {
+      console.error('Error deleting history entries:', error);
+    }
+  }
+
   // Clear history
   async clearHistory(): Promise<void> {
     try {
-      await storage.remove('agent-bar-history');
+      await this.serialize('agent-bar-history', () => storage.remove('agent-bar-history'));
     } catch (error) {
       console.error('Error clearing history:', error);
     }
   }
 
+  // Get daily token usage entries
+  async getUsage(): Promise<UsageEntry[]> {
+    try {
+      return (await storage.get('agent-bar-usage')) || [];
+    } catch (error) {
+      console.error('Error getting usage:', error);
+      return [];
+    }
+  }
+
+  // Add one request's token usage to the daily totals
+  async recordUsage(record: UsageRecord): Promise<void> {
+    try {
+      await this.serialize('agent-bar-usage', async () => {
+        const entries = await this.getUsage();
+        await storage.set('agent-bar-usage', addUsage(entries, record));
+      });
+    } catch (error) {
+      console.error('Error recording usage:', error);
+    }
+  }
+
+  // Clear usage statistics
+  async clearUsage(): Promise<void> {
+    try {
+      await this.serialize('agent-bar-usage', () => storage.remove('agent-bar-usage'));
+    } catch (error) {
+      console.error('Error clearing usage:', error);
+    }
+  }
+
   // Get cached data
   async getCachedData<T>(key: string, timeout: number = 300000): Promise<T | null> {
     try {
@@ -331,8 +499,8 @@ class StorageManager {
     }
   }
 
-  // Import configuration
-  async importConfig(jsonData: string): Promise<void> {
+  // Import configuration; returns what had to be migrated or repaired on the way
+  async importConfig(jsonData: string): Promise<string[]> {
     try {
       const importData = JSON.parse(jsonData);
 
@@ -340,11 +508,13 @@ class StorageManager {
         throw new Error('Invalid import data format');
       }
 
-      await this.setConfig(importData.config);
+      const { config, issues } = normalizeConfig(importData.config, DEFAULT_CONFIG);
+      await this.setConfig(config);
 
       if (importData.history) {
         await storage.set('agent-bar-history', importData.history);
       }
+      return issues;
     } catch (error) {
       console.error('Error importing config:', error);
       throw error;
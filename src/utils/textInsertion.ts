@@ -0,0 +1,166 @@
+export type InsertMode = 'replace' | 'insert-below' | 'append';
+
+// Where a result can be written back, captured when the toolbar button is clicked
+export interface InsertTarget {
+  element: HTMLElement;
+  // Selection offsets for <input>/<textarea>
+  start?: number;
+  end?: number;
+  // Selection range for contenteditable editors
+  range?: Range;
+}
+
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'url', 'tel', 'email', 'password', '']);
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+const isTextField = (el: Element): el is TextField =>
+  el.tagName === 'TEXTAREA' || (el.tagName === 'INPUT' && TEXT_INPUT_TYPES.has((el as HTMLInputElement).type));
+
+const findEditable = (node: Node | null | undefined): HTMLElement | null => {
+  const el = node && (node.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : node.parentElement);
+  if (!el) return null;
+  if (isTextField(el)) return el;
+  if (!el.isContentEditable) return null;
+  // Walk up to the editing host so the whole editor is the target
+  let host: HTMLElement = el;
+  while (host.parentElement && host.parentElement.isContentEditable) host = host.parentElement;
+  return host;
+};
+
+export function captureInsertTarget(candidate?: HTMLElement | null): InsertTarget | null {
+  const selection = window.getSelection();
+  const element = findEditable(candidate)
+    || findEditable(document.activeElement)
+    || (selection && selection.rangeCount > 0 ? findEditable(selection.getRangeAt(0).commonAncestorContainer) : null);
+  if (!element) return null;
+
+  if (isTextField(element)) {
+    const length = element.value.length;
+    return { element, start: element.selectionStart ?? length, end: element.selectionEnd ?? length };
+  }
+  const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+  return { element, range: range && element.contains(range.commonAncestorContainer) ? range.cloneRange() : undefined };
+}
+
+// Assign through the prototype setter so framework value trackers (React) notice the change
+const setNativeValue = (el: TextField, value: string) => {
+  const proto = el.tagName === 'TEXTAREA' ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
+  if (setter) setter.call(el, value);
+  else el.value = value;
+};
+
+const dispatchInput = (el: HTMLElement, data: string | null, inputType = 'insertText') => {
+  el.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data }));
+};
+
+// execCommand keeps the edit on the browser's own undo stack (Ctrl+Z) and fires native input events
+const execInsertText = (text: string): boolean => {
+  try {
+    return document.execCommand('insertText', false, text);
+  } catch {
+    return false;
+  }
+};
+
+const execUndo = (): boolean => {
+  try {
+    return document.execCommand('undo');
+  } catch {
+    return false;
+  }
+};
+
+const insertIntoTextField = (target: InsertTarget, el: TextField, text: string, mode: InsertMode): () => void => {
+  const before = el.value;
+  const separator = el.tagName === 'TEXTAREA' ? '\n' : ' ';
+  const selStart = Math.min(target.start ?? before.length, before.length);
+  const selEnd = Math.min(target.end ?? before.length, before.length);
+
+  let start: number;
+  let end: number;
+  let insert = text;
+  if (mode === 'replace') {
+    // Nothing selected: the result replaces the whole field
+    [start, end] = selStart === selEnd ? [0, before.length] : [selStart, selEnd];
+  } else if (mode === 'insert-below') {
+    const lineEnd = el.tagName === 'TEXTAREA' ? before.indexOf('\n', selEnd) : -1;
+    start = end = lineEnd === -1 ? before.length : lineEnd;
+    insert = separator + text;
+  } else {
+    start = end = before.length;
+    insert = before && !before.endsWith(separator) ? separator + text : text;
+  }
+
+  el.focus();
+  try { el.setSelectionRange(start, end); } catch { }
+  const expected = before.slice(0, start) + insert + before.slice(end);
+  const native = execInsertText(insert) && el.value === expected;
+  if (!native) {
+    setNativeValue(el, expected);
+    dispatchInput(el, insert);
+    try { el.setSelectionRange(start + insert.length, start + insert.length); } catch { }
+  }
+  el.dispatchEvent(new Event('change', { bubbles: true }));
+
+  return () => {
+    el.focus();
+    if (native && execUndo() && el.value === before) return;
+    setNativeValue(el, before);
+    dispatchInput(el, null, 'historyUndo');
+    el.dispatchEvent(new Event('change', { bubbles: true }));
+  };
+};
+
+const insertIntoEditable = (target: InsertTarget, el: HTMLElement, text: string, mode: InsertMode): () => void => {
+  const before = el.innerHTML;
+  const range = document.createRange();
+  let insert = text;
+  if (mode === 'replace' && target.range && !target.range.collapsed) {
+    range.setStart(target.range.startContainer, target.range.startOffset);
+    range.setEnd(target.range.endContainer, target.range.endOffset);
+  } else if (mode === 'replace') {
+    range.selectNodeContents(el);
+  } else if (mode === 'insert-below' && target.range) {
+    range.setStart(target.range.endContainer, target.range.endOffset);
+    range.collapse(true);
+    insert = '\n' + text;
+  } else {
+    range.selectNodeContents(el);
+    range.collapse(false);
+    if ((el.textContent || '').trim()) insert = '\n' + text;
+  }
+
+  el.focus();
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+  const native = execInsertText(insert);
+  if (!native) {
+    range.deleteContents();
+    const node = document.createTextNode(insert);
+    range.insertNode(node);
+    range.setStartAfter(node);
+    range.collapse(true);
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    dispatchInput(el, insert);
+  }
+
+  return () => {
+    el.focus();
+    if (native && execUndo()) return;
+    el.innerHTML = before;
+    dispatchInput(el, null, 'historyUndo');
+  };
+};
+
+// Writes text into the captured target; returns an undo function, or null when the target is gone
+export function insertResult(target: InsertTarget, text: string, mode: InsertMode): (() => void) | null {
+  const el = target.element;
+  if (!el.isConnected) return null;
+  return isTextField(el)
+    ? insertIntoTextField(target, el, text, mode)
+    : insertIntoEditable(target, el, text, mode);
+}
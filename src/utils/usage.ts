@@ -0,0 +1,109 @@
+import type { TokenUsage, UsageBudget, UsageEntry } from '../types';
+import { formatCost } from './pricing';
+
+// Daily entries older than this are dropped when new usage is recorded
+export const USAGE_RETENTION_DAYS = 365;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDayKey = (time: number | Date = Date.now()): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const toMonthKey = (time: number | Date = Date.now()): string => toDayKey(time).slice(0, 7);
+
+export interface UsageRecord {
+  providerId: string;
+  providerName: string;
+  model: string;
+  toolbarId?: string;
+  buttonId?: string;
+  usage: TokenUsage;
+  cost?: number;
+  timestamp?: number;
+}
+
+const sameBucket = (entry: UsageEntry, day: string, record: UsageRecord) =>
+  entry.day === day
+  && entry.providerId === record.providerId
+  && entry.model === record.model
+  && entry.toolbarId === record.toolbarId
+  && entry.buttonId === record.buttonId;
+
+// Adds one request to its daily bucket and drops buckets past the retention window
+export function addUsage(entries: UsageEntry[], record: UsageRecord): UsageEntry[] {
+  const timestamp = record.timestamp ?? Date.now();
+  const day = toDayKey(timestamp);
+  const oldest = toDayKey(timestamp - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const kept = entries.filter(e => e.day >= oldest);
+  const index = kept.findIndex(e => sameBucket(e, day, record));
+  const base: UsageEntry = index === -1
+    ? {
+      day,
+      providerId: record.providerId,
+      providerName: record.providerName,
+      model: record.model,
+      ...(record.toolbarId && { toolbarId: record.toolbarId }),
+      ...(record.buttonId && { buttonId: record.buttonId }),
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+    }
+    : kept[index];
+  const updated: UsageEntry = {
+    ...base,
+    providerName: record.providerName,
+    requests: base.requests + 1,
+    promptTokens: base.promptTokens + record.usage.promptTokens,
+    completionTokens: base.completionTokens + record.usage.completionTokens,
+    cost: base.cost + (record.cost || 0),
+  };
+  return index === -1 ? [...kept, updated] : kept.map((e, i) => (i === index ? updated : e));
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export function sumUsage(entries: UsageEntry[]): UsageTotals {
+  return entries.reduce<UsageTotals>((totals, e) => ({
+    requests: totals.requests + e.requests,
+    promptTokens: totals.promptTokens + e.promptTokens,
+    completionTokens: totals.completionTokens + e.completionTokens,
+    totalTokens: totals.totalTokens + e.promptTokens + e.completionTokens,
+    cost: totals.cost + e.cost,
+  }), { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 });
+}
+
+// Totals grouped by a key such as the day, provider or button, largest cost first
+export function groupUsage(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): Array<{ key: string } & UsageTotals> {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, ...sumUsage(group) }))
+    .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+export const getMonthUsage = (entries: UsageEntry[], now = Date.now()): UsageTotals =>
+  sumUsage(entries.filter(e => e.day.startsWith(toMonthKey(now))));
+
+// Why a new request must be refused, or null while the month is within budget
+export function getBudgetError(entries: UsageEntry[], budget?: UsageBudget, now = Date.now()): string | null {
+  if (!budget) return null;
+  const month = getMonthUsage(entries, now);
+  if (budget.monthlyCostLimit !== undefined && month.cost >= budget.monthlyCostLimit) {
+    return `Monthly budget reached: ${formatCost(month.cost)} of ${formatCost(budget.monthlyCostLimit)} spent. Raise the limit on the Usage page to continue.`;
+  }
+  if (budget.monthlyTokenLimit !== undefined && month.totalTokens >= budget.monthlyTokenLimit) {
+    return `Monthly token limit reached: ${month.totalTokens.toLocaleString()} of ${budget.monthlyTokenLimit.toLocaleString()} tokens used. Raise the limit on the Usage page to continue.`;
+  }
+  return null;
+}